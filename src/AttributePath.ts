@@ -0,0 +1,191 @@
+import {Expression} from './Expression';
+import {Literal, Path, Size} from './Operand';
+
+/**
+ * An element of a document path; a string for a map key or a number for a list index
+ */
+export type PathElement = string | number;
+
+/**
+ * Parse a document path such as 'a.b[2].c' into its elements, e.g. ['a', 'b', 2, 'c']
+ * @param path
+ */
+export function parsePath(path: string): PathElement[] {
+  return path.split('.').flatMap(part => {
+    const [name, ...indexes] = part.split('[');
+
+    return [name, ...indexes.map(index => {
+      const i = Number(index.replace(/]$/, ''));
+
+      if (!index.endsWith(']') || !Number.isInteger(i) || i < 0) {
+        throw new Error(`Invalid list index in path '${path}'`);
+      }
+
+      return i;
+    })];
+  });
+}
+
+function getElements(item: unknown, elements: PathElement[]): unknown {
+  return elements.reduce((value: any, element) => {
+    if (typeof element === 'number') {
+      return Array.isArray(value) ? value[element] : undefined;
+    }
+
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value[element] : undefined;
+  }, item);
+}
+
+/**
+ * Get the value of the attribute with the given document path, or undefined if it does not exist
+ * @param item
+ * @param path
+ */
+export function getAttribute(item: unknown, path: string): unknown {
+  return getElements(item, parsePath(path));
+}
+
+/**
+ * Get the size of an attribute value like the DynamoDB size() function, i.e., the length of a string, binary or list,
+ * the number of elements in a set or the number of entries in a map.
+ * @param value
+ */
+export function getSize(value: unknown): number | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return value.length;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  if (value instanceof Set) {
+    return value.size;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).length;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse an operand following the same rules as when building expressions, i.e.,
+ * strings starting with : are literal values and strings containing # refer to attributes, optionally wrapped in the
+ * size() function. Typed operands are parsed according to their type, while expressions created with expr cannot be
+ * parsed.
+ * @param operand
+ * @param defaultType Whether to treat the operand as an attribute name or a value if not explicitly marked
+ */
+export function parseOperand(operand: unknown, defaultType: 'name' | 'value'):
+    {path: string; size: boolean} | {value: unknown} {
+  if (operand instanceof Expression) {
+    throw new Error(`Cannot evaluate expression operand '${operand}'`);
+  } else if (operand instanceof Path || operand instanceof Size) {
+    return {path: operand.path, size: operand instanceof Size};
+  } else if (operand instanceof Literal) {
+    return {value: operand.value};
+  } else if (typeof operand === 'string') {
+    if (operand[0] === ':') {
+      return {value: operand.substring(1)};
+    } else if (operand.includes('#')) {
+      const [, func, path] = /^(size\()?#([^)]+)\)?$/.exec(operand) ?? [];
+
+      if (path === undefined) {
+        throw new Error(`Cannot evaluate operand '${operand}'`);
+      }
+
+      return {path, size: !!func};
+    }
+  }
+
+  return defaultType === 'name' ? {path: String(operand), size: false} : {value: operand};
+}
+
+/**
+ * Resolve an operand against an item, i.e., get the value of the attribute the operand refers to, or the operand
+ * value itself if it's a literal value.
+ * @param operand
+ * @param defaultType Whether to treat the operand as an attribute name or a value if not explicitly marked
+ * @param item
+ */
+export function resolveOperand(operand: unknown, defaultType: 'name' | 'value', item: unknown): unknown {
+  const parsed = parseOperand(operand, defaultType);
+
+  if ('value' in parsed) {
+    return parsed.value;
+  }
+
+  const value = getAttribute(item, parsed.path);
+
+  return parsed.size ? getSize(value) : value;
+}
+
+/**
+ * Create a deep copy of a value, copying maps, lists and sets
+ * @param value
+ */
+export function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as unknown as T;
+  }
+  if (value instanceof Set) {
+    return new Set(value) as unknown as T;
+  }
+  if (typeof value === 'object' && value !== null && (value as any).constructor === Object) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, cloneValue(v)])) as unknown as T;
+  }
+
+  return value;
+}
+
+function getParent(item: unknown, path: string): [any, PathElement] {
+  const elements = parsePath(path);
+  const last = elements.pop() as PathElement;
+
+  return [getElements(item, elements), last];
+}
+
+/**
+ * Set the value of the attribute with the given document path. Like DynamoDB, an index beyond the end of a list
+ * appends the value to the list.
+ * @param item
+ * @param path
+ * @param value
+ * @throws Error if the parent of the attribute does not exist or has the wrong type
+ */
+export function setAttribute(item: unknown, path: string, value: unknown): void {
+  const [parent, element] = getParent(item, path);
+
+  if (typeof element === 'number') {
+    if (!Array.isArray(parent)) {
+      throw new Error(`The document path '${path}' is invalid for update; the parent is not a list`);
+    }
+    if (element < parent.length) {
+      parent[element] = value;
+    } else {
+      parent.push(value);
+    }
+  } else {
+    if (typeof parent !== 'object' || parent === null || Array.isArray(parent) || parent instanceof Set) {
+      throw new Error(`The document path '${path}' is invalid for update; the parent is not a map`);
+    }
+    parent[element] = value;
+  }
+}
+
+/**
+ * Remove the attribute with the given document path, if it exists. Removing a list element shifts
+ * the subsequent elements.
+ * @param item
+ * @param path
+ */
+export function removeAttribute(item: unknown, path: string): void {
+  const [parent, element] = getParent(item, path);
+
+  if (typeof element === 'number') {
+    if (Array.isArray(parent)) {
+      parent.splice(element, 1);
+    }
+  } else if (typeof parent === 'object' && parent !== null && !Array.isArray(parent)) {
+    delete parent[element];
+  }
+}
@@ -0,0 +1,112 @@
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+
+/**
+ * A value in the low-level DynamoDB format, as used by the plain DynamoDB client
+ * See https://docs.aws.amazon.com/amazondynamodb/latest/APIReference/API_AttributeValue.html
+ */
+export type AttributeValue =
+    {S: string} |
+    {N: string} |
+    {B: Uint8Array} |
+    {SS: string[]} |
+    {NS: string[]} |
+    {BS: Uint8Array[]} |
+    {M: Record<string, AttributeValue>} |
+    {L: AttributeValue[]} |
+    {NULL: true} |
+    {BOOL: boolean};
+
+function isBinary(value: unknown): value is Uint8Array {
+  // ArrayBuffer.isView also works for Buffer and Uint8Array objects created in other realms
+  return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+function marshallSet(set: Set<unknown>): AttributeValue {
+  const values = [...set];
+
+  if (!values.length) {
+    throw new Error('Cannot marshall an empty set');
+  }
+  if (values.every(v => typeof v === 'string')) {
+    return {SS: values as string[]};
+  }
+  if (values.every(v => typeof v === 'number')) {
+    return {NS: values.map(String)};
+  }
+  if (values.every(isBinary)) {
+    return {BS: values as Uint8Array[]};
+  }
+
+  throw new Error('Cannot marshall a set with elements of mixed or unsupported types');
+}
+
+/**
+ * Convert a native JavaScript value into a low-level AttributeValue
+ * Example:
+ *
+ * marshall({a: 1, b: new Set(['x'])}); // {M: {a: {N: '1'}, b: {SS: ['x']}}}
+ * @param value
+ * @throws Error if the value cannot be represented in DynamoDB
+ */
+export function marshall(value: unknown): AttributeValue {
+  switch (typeof value) {
+    case 'string':
+      return {S: value};
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot marshall number ${value}`);
+      }
+      return {N: String(value)};
+    case 'boolean':
+      return {BOOL: value};
+    case 'undefined':
+      return {NULL: true};
+  }
+
+  if (value === null) {
+    return {NULL: true};
+  }
+  if (isBinary(value)) {
+    return {B: value};
+  }
+  if (value instanceof Set) {
+    return marshallSet(value);
+  }
+  if (Array.isArray(value)) {
+    return {L: value.map(marshall)};
+  }
+  if (typeof value === 'object' && (value as any).constructor === Object) {
+    return {
+      M: Object.fromEntries(Object.entries(value as Record<string, unknown>)
+          .filter(([, v]) => v !== undefined)
+          .map(([k, v]) => [k, marshall(v)]))
+    };
+  }
+
+  throw new Error(`Cannot marshall value of type ${typeof value}`);
+}
+
+/**
+ * Convert an item or key of native JavaScript values into a map of low-level AttributeValues, as used for Item and Key
+ * params of the plain DynamoDB client. Undefined attributes are omitted.
+ * Example:
+ *
+ * marshallItem({id: '1', tags: new Set(['x'])}); // {id: {S: '1'}, tags: {SS: ['x']}}
+ * @param item
+ * @throws Error if any attribute value cannot be represented in DynamoDB
+ */
+export function marshallItem(item: Record<string, unknown>): Record<string, AttributeValue> {
+  return (marshall(item) as {M: Record<string, AttributeValue>}).M;
+}
+
+/**
+ * Format an item or key for Item and Key params according to the value format of the given options, i.e., convert
+ * it into AttributeValues using marshallItem() with the attributeValue value format and return it as-is otherwise
+ * @param item
+ * @param options
+ */
+export function formatItem<I>(item: I, options: ExpressionBuilderOptions | undefined): I {
+  return options?.valueFormat === 'attributeValue' ?
+      marshallItem(item as unknown as Record<string, unknown>) as unknown as I :
+      item;
+}
@@ -0,0 +1,305 @@
+import {ClientResult, send} from './Client';
+import {canonicalize} from './ExpressionBuilder';
+import {buildProjectionParams, ProjectionAttributes} from './Projection';
+import {Key} from './Types';
+
+// https://docs.aws.amazon.com/amazondynamodb/latest/APIReference/API_BatchWriteItem.html
+const MAX_BATCH_WRITE_ITEMS = 25;
+// https://docs.aws.amazon.com/amazondynamodb/latest/APIReference/API_BatchGetItem.html
+const MAX_BATCH_GET_KEYS = 100;
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_DELAY = 50;
+const DEFAULT_MAX_DELAY = 5000;
+
+export type WriteRequest = {PutRequest: {Item: unknown}} | {DeleteRequest: {Key: Key}};
+
+export interface KeysAndAttributes {
+  Keys: Key[];
+  [param: string]: unknown;
+}
+
+export interface BatchWriteParams {
+  RequestItems: Record<string, WriteRequest[]>;
+}
+
+export interface BatchGetParams {
+  RequestItems: Record<string, KeysAndAttributes>;
+}
+
+/**
+ * A minimal client supporting batchWrite() calls, such as a DynamoDB document client
+ */
+export interface BatchWriteClient {
+  batchWrite(params: BatchWriteParams): ClientResult<{UnprocessedItems?: Record<string, WriteRequest[]>}>;
+}
+
+/**
+ * A minimal client supporting batchGet() calls, such as a DynamoDB document client
+ */
+export interface BatchGetClient<T> {
+  batchGet(params: BatchGetParams): ClientResult<{
+    Responses?: Record<string, T[]>;
+    UnprocessedKeys?: Record<string, KeysAndAttributes>;
+  }>;
+}
+
+export interface BatchPut<T> {
+  type: 'Put';
+  tableName: string;
+  item: T;
+  /**
+   * The names of the key attributes of the item, used to detect multiple operations on the same item
+   */
+  keyAttributes: Array<keyof T & string>;
+}
+
+export interface BatchDelete {
+  type: 'Delete';
+  tableName: string;
+  key: Key;
+}
+
+export type BatchWriteOperation<T = any> = BatchPut<T> | BatchDelete;
+
+/**
+ * The keys to get from a table, and optionally the attributes to project
+ */
+export interface BatchGetTable<T> {
+  keys: Key[];
+  attributes?: ProjectionAttributes<T>;
+  consistentRead?: boolean;
+}
+
+export interface RetryOptions {
+  /**
+   * The maximum number of calls for each chunk, including the first call; 8 by default
+   */
+  maxAttempts?: number;
+  /**
+   * The base delay in milliseconds before retrying, which is doubled for each attempt; 50 by default
+   */
+  baseDelay?: number;
+  /**
+   * The maximum delay in milliseconds before retrying; 5000 by default
+   */
+  maxDelay?: number;
+}
+
+/**
+ * Thrown when unprocessed items remain after the maximum number of attempts. The unprocessed items, including those
+ * in chunks which were never sent, may be retried later.
+ */
+export class UnprocessedItemsError extends Error {
+  constructor(readonly unprocessedItems: Record<string, WriteRequest[]>) {
+    super(`Batch write failed with ${countRequests(unprocessedItems)} unprocessed items`);
+    this.name = 'UnprocessedItemsError';
+  }
+}
+
+/**
+ * Thrown when unprocessed keys remain after the maximum number of attempts. The unprocessed keys, including those
+ * in chunks which were never sent, may be retried later.
+ */
+export class UnprocessedKeysError extends Error {
+  constructor(readonly unprocessedKeys: Record<string, KeysAndAttributes>) {
+    super(`Batch get failed with ${countRequests(unprocessedKeys)} unprocessed keys`);
+    this.name = 'UnprocessedKeysError';
+  }
+}
+
+function countRequests(requestItems: Record<string, WriteRequest[] | KeysAndAttributes>): number {
+  return Object.values(requestItems).reduce((n, requests) =>
+      n + (Array.isArray(requests) ? requests.length : requests.Keys.length), 0);
+}
+
+function isEmpty(requestItems?: Record<string, unknown>): requestItems is undefined {
+  return !requestItems || !Object.keys(requestItems).length;
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  return Array.from({length: Math.ceil(values.length / size)}, (_, i) => values.slice(i * size, (i + 1) * size));
+}
+
+function getItemId(tableName: string, key: Key): string {
+  return JSON.stringify([tableName, canonicalize(key)]);
+}
+
+function getKey<T>({tableName, item, keyAttributes}: BatchPut<T>): Key {
+  return Object.fromEntries(keyAttributes.map(name => {
+    if (item[name] === undefined) {
+      throw new Error(`Put item for table ${tableName} is missing key attribute ${name}`);
+    }
+    return [name, item[name]];
+  }));
+}
+
+/**
+ * Sleep before the given retry, using exponential backoff with full jitter
+ * @param attempt Number of previous attempts
+ * @param options
+ */
+function backoff(attempt: number, {baseDelay = DEFAULT_BASE_DELAY, maxDelay = DEFAULT_MAX_DELAY}: RetryOptions) {
+  const delay = Math.random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+
+  return new Promise(resolve => setTimeout(resolve, delay));
+}
+
+/**
+ * Call a batch operation, retrying unprocessed requests until all are processed or the maximum number of attempts is
+ * reached
+ * @param requestItems Initial request items
+ * @param call Function calling the batch operation and returning the unprocessed request items
+ * @param retry Retry options
+ * @return Unprocessed request items, or undefined if all were processed
+ */
+async function callWithRetries<R>(
+    requestItems: Record<string, R>,
+    call: (requestItems: Record<string, R>) => Promise<Record<string, R> | undefined>,
+    retry: RetryOptions): Promise<Record<string, R> | undefined> {
+  const {maxAttempts = DEFAULT_MAX_ATTEMPTS} = retry;
+  let unprocessed: Record<string, R> | undefined = requestItems;
+
+  for (let attempt = 0; attempt < maxAttempts && !isEmpty(unprocessed); attempt++) {
+    if (attempt) {
+      await backoff(attempt, retry);
+    }
+    unprocessed = await call(unprocessed);
+  }
+
+  return isEmpty(unprocessed) ? undefined : unprocessed;
+}
+
+function groupByTable<T, R>(entries: Array<[string, T]>, f: (tableName: string, values: T[]) => R): Record<string, R> {
+  const groups = new Map<string, T[]>();
+
+  for (const [tableName, value] of entries) {
+    groups.set(tableName, [...groups.get(tableName) ?? [], value]);
+  }
+
+  return Object.fromEntries([...groups].map(([tableName, values]) => [tableName, f(tableName, values)]));
+}
+
+/**
+ * Flatten request items into a list of table name and request pairs
+ * @param requestItems
+ */
+function entriesOf<R>(requestItems: Array<Record<string, R[]>>): Array<[string, R]> {
+  return requestItems
+      .flatMap(items => Object.entries(items))
+      .flatMap(([tableName, requests]) => requests.map((r): [string, R] => [tableName, r]));
+}
+
+/**
+ * Put and delete items using batchWrite() calls with at most 25 items each. If there are multiple operations on the
+ * same item, only the last one is performed. Unprocessed items are retried using exponential backoff with jitter.
+ * Example:
+ *
+ * await batchWrite(ddb, {
+ *   operations: [
+ *     {type: 'Put', tableName: 'items', item: {id: '1', name: 'foo'}, keyAttributes: ['id']},
+ *     {type: 'Delete', tableName: 'items', key: {id: '2'}},
+ *   ]
+ * });
+ * @param client Client supporting batchWrite() calls
+ * @param operations Put or Delete operations
+ * @param [retry] Options such as the maximum number of attempts for each chunk
+ * @throws UnprocessedItemsError if unprocessed items remain after the maximum number of attempts
+ */
+export async function batchWrite(
+    client: BatchWriteClient,
+    {operations, retry = {}}: {operations: BatchWriteOperation[]; retry?: RetryOptions}
+): Promise<void> {
+  const requests = new Map<string, [string, WriteRequest]>();
+
+  for (const operation of operations) {
+    const key = operation.type === 'Put' ? getKey(operation) : operation.key;
+    const itemId = getItemId(operation.tableName, key);
+
+    // Delete and re-insert, so that requests are sent in the order of the last operation on each item
+    requests.delete(itemId);
+    requests.set(itemId, [operation.tableName, operation.type === 'Put' ?
+        {PutRequest: {Item: operation.item}} :
+        {DeleteRequest: {Key: operation.key}}]);
+  }
+
+  const chunks = chunk([...requests.values()], MAX_BATCH_WRITE_ITEMS)
+      .map(entries => groupByTable(entries, (tableName, tableRequests) => tableRequests));
+
+  for (const [i, requestItems] of chunks.entries()) {
+    const unprocessed = await callWithRetries(requestItems, async RequestItems => {
+      const {UnprocessedItems} = await send(client.batchWrite({RequestItems}));
+
+      return UnprocessedItems;
+    }, retry);
+
+    if (unprocessed) {
+      const remaining = entriesOf([unprocessed, ...chunks.slice(i + 1)]);
+
+      throw new UnprocessedItemsError(groupByTable(remaining, (tableName, tableRequests) => tableRequests));
+    }
+  }
+}
+
+/**
+ * Get items by key using batchGet() calls with at most 100 keys each. Duplicate keys are only requested once.
+ * Unprocessed keys are retried using exponential backoff with jitter. Note that the items of each table are not
+ * returned in the order of the keys.
+ * Example:
+ *
+ * const {users} = await batchGet<User>(ddb, {
+ *   tables: {users: {keys: [{id: '1'}, {id: '2'}], attributes: ['id', 'name']}}
+ * });
+ * @param client Client supporting batchGet() calls
+ * @param tables Keys to get, and optionally attributes to project, by table name
+ * @param [retry] Options such as the maximum number of attempts for each chunk
+ * @return Items by table name
+ * @throws UnprocessedKeysError if unprocessed keys remain after the maximum number of attempts
+ */
+export async function batchGet<T>(
+    client: BatchGetClient<T>,
+    {tables, retry = {}}: {tables: Record<string, BatchGetTable<T>>; retry?: RetryOptions}
+): Promise<Record<string, T[]>> {
+  const keys = new Map<string, [string, Key]>();
+
+  for (const [tableName, {keys: tableKeys}] of Object.entries(tables)) {
+    for (const key of tableKeys) {
+      keys.set(getItemId(tableName, key), [tableName, key]);
+    }
+  }
+
+  const buildKeysAndAttributes = (tableName: string, tableKeys: Key[]): KeysAndAttributes => {
+    const {attributes, consistentRead} = tables[tableName];
+    const params = {
+      Keys: tableKeys,
+      ...(consistentRead !== undefined && {ConsistentRead: consistentRead})
+    };
+
+    return attributes ? buildProjectionParams({attributes, params}) : params;
+  };
+
+  const chunks = chunk([...keys.values()], MAX_BATCH_GET_KEYS)
+      .map(entries => groupByTable(entries, buildKeysAndAttributes));
+  const items: Record<string, T[]> = Object.fromEntries(Object.keys(tables).map(tableName => [tableName, []]));
+
+  for (const [i, requestItems] of chunks.entries()) {
+    const unprocessed = await callWithRetries(requestItems, async RequestItems => {
+      const {Responses = {}, UnprocessedKeys} = await send(client.batchGet({RequestItems}));
+
+      for (const [tableName, tableItems] of Object.entries(Responses)) {
+        items[tableName].push(...tableItems);
+      }
+
+      return UnprocessedKeys;
+    }, retry);
+
+    if (unprocessed) {
+      const remaining = entriesOf([unprocessed, ...chunks.slice(i + 1)].map(c =>
+          Object.fromEntries(Object.entries(c).map(([tableName, {Keys}]) => [tableName, Keys]))));
+
+      throw new UnprocessedKeysError(groupByTable(remaining, buildKeysAndAttributes));
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,11 @@
+/**
+ * The result of a DynamoDB client call; either a promise, as returned by e.g. the DynamoDBDocument client of AWS SDK v3,
+ * or an object with a promise() method, as returned by e.g. the DocumentClient of AWS SDK v2
+ */
+export type ClientResult<R> = PromiseLike<R> | {promise(): PromiseLike<R>};
+
+export function send<R>(result: ClientResult<R>): Promise<R> {
+  return Promise.resolve('promise' in result && typeof result.promise === 'function' ?
+      result.promise() :
+      result as PromiseLike<R>);
+}
@@ -39,4 +39,13 @@ export class CompositeCondition<T> {
   or(...operands: Array<ConditionSet<T>>): CompositeCondition<T> {
     return new CompositeCondition<T>('OR', [this, ...operands]);
   }
+
+  /**
+   * Simplify this condition into a smaller but equivalent condition set, i.e., flattening nested composite
+   * conditions, merging conditions on the same attribute and simplifying each condition using Condition.simplify().
+   * If only a single operand remains, it's returned as-is.
+   */
+  simplify(): ConditionSet<T> {
+    return ConditionSet.simplify(this);
+  }
 }
\ No newline at end of file
@@ -1,17 +1,23 @@
+import {resolveOperand} from './AttributePath';
 import {CompositeCondition} from './CompositeCondition';
 import {ConditionExpressionBuilder} from './ConditionExpressionBuilder';
-import {Params} from './ExpressionBuilder';
+import {simplifyCondition, simplifyConditionSet} from './ConditionSimplifier';
+import {deserializeOperand, serializeOperand} from './Expression';
+import {ExpressionBuilderOptions, isEqual, Params} from './ExpressionBuilder';
+import {ExpressionValidationError, validateConditionExpression} from './ExpressionValidator';
+import {KeyConditionAttributes, KeySchema, validateKeyConditions} from './KeySchema';
+import {Literal, OperandValue} from './Operand';
 import ParamsBuilder from './ParamsBuilder';
 
 type Comparator = '=' | '<>' | '<' | '<=' | '>' | '>=';
 type Func = 'attribute_exists' | 'attribute_not_exists' | 'attribute_type' | 'begins_with' | 'contains';
 
-type Operator = Comparator | Func | 'in' | 'between' | 'and' | 'or' | 'not';
+export type Operator = Comparator | Func | 'in' | 'between' | 'and' | 'or' | 'not';
 
 /**
- * A simple value or a condition
+ * A simple value, a typed operand or a condition
  */
-export type ConditionValue<T> = T | Condition<T>;
+export type ConditionValue<T> = OperandValue<T> | Condition<T>;
 
 /**
  * An object of key-value pairs where each key is an attribute name in the record and each value is either a
@@ -54,6 +60,69 @@ export namespace ConditionSet {
   export function or<T, U extends T>(...operands: Array<ConditionSet<U>>): CompositeCondition<T> {
     return new CompositeCondition('OR', operands) as CompositeCondition<T>;
   }
+
+  /**
+   * Evaluate the given conditions against an item, as DynamoDB would when evaluating a condition or filter
+   * expression built from the same conditions. Keys and operands referring to other attributes, such as
+   * Operand.get() and Operand.size(), are resolved against the item.
+   * Example:
+   *
+   * ConditionSet.evaluate({a: Condition.gt(Operand.get('b'))}, {a: 5, b: 4}); // true
+   * @param conditions Condition set
+   * @param item Item to evaluate the conditions against
+   */
+  export function evaluate<T>(conditions: ConditionSet<T>, item: T): boolean {
+    if (isEmpty(conditions)) {
+      return true;
+    }
+
+    if (conditions instanceof CompositeCondition) {
+      const operands = conditions.operands.filter(operand => !isEmpty(operand));
+
+      return conditions.operator === 'AND' ?
+          operands.every(operand => evaluate(operand, item)) :
+          operands.some(operand => evaluate(operand, item));
+    }
+
+    return Object.entries(conditions)
+        .filter(([, value]) => value !== undefined)
+        .every(([key, value]) => resolveCondition(Condition.from(value), item).evaluate(resolveOperand(key, 'name', item)));
+  }
+
+  /**
+   * Simplify the given conditions into a smaller but equivalent condition set, i.e., flattening nested composite
+   * conditions, merging conditions on the same attribute and simplifying each condition using Condition.simplify().
+   * Example:
+   *
+   * ConditionSet.simplify(ConditionSet.and({a: Condition.ge(1)}, ConditionSet.and({a: Condition.le(5), b: 2})));
+   * // {a: Condition.between(1, 5), b: 2}
+   * @param conditions Condition set
+   */
+  export function simplify<T>(conditions: ConditionSet<T>): ConditionSet<T> {
+    return simplifyConditionSet(conditions);
+  }
+
+  function isEmpty<T>(conditions: ConditionSet<T>): boolean {
+    return conditions instanceof CompositeCondition ?
+        conditions.operands.every(isEmpty) :
+        Object.values(conditions).every(value => value === undefined);
+  }
+}
+
+/**
+ * Create an equivalent condition where all operands referring to attributes are replaced with the attribute values
+ * of the given item
+ * @param c
+ * @param item
+ */
+function resolveCondition(c: Condition<unknown>, item: unknown): Condition<unknown> {
+  const {operator, operands} = c;
+  const f = Condition[operatorMap[operator]] as any;
+
+  return f(...operands.map(o =>
+      o instanceof Condition ? resolveCondition(o, item) :
+          operator === 'in' ? (o as unknown[]).map(v => resolveOperand(v, 'value', item)) :
+              resolveOperand(o, 'value', item)));
 }
 
 type BuildConditionExpression = (key: string, builder: ParamsBuilder) => {
@@ -75,7 +144,10 @@ function isSerializedCondition(c: any): c is SerializedCondition {
       c.operator in operatorMap;
 }
 
-const operatorMap: Record<Operator, keyof typeof Condition> = {
+/**
+ * The Condition factory method of each operator
+ */
+export const operatorMap: Record<Operator, keyof typeof Condition> = {
   '=': 'eq',
   '<>': 'neq',
   '<': 'lt',
@@ -94,11 +166,55 @@ const operatorMap: Record<Operator, keyof typeof Condition> = {
   'not': 'not'
 };
 
+const LOGICAL_OPERATORS: Operator[] = ['and', 'or', 'not'];
+
+/**
+ * Serialize an operand of a condition. Only the operands of logical operators may be conditions, and the operand of
+ * 'in' is a list of operands.
+ * @param operator
+ * @param operand
+ */
+function serializeConditionOperand(operator: Operator, operand: unknown): unknown {
+  return LOGICAL_OPERATORS.includes(operator) && operand instanceof Condition ? operand.toJSON() :
+      operator === 'in' && Array.isArray(operand) ? operand.map(serializeOperand) :
+          serializeOperand(operand);
+}
+
+function deserializeConditionOperand(operator: Operator, operand: unknown): unknown {
+  return LOGICAL_OPERATORS.includes(operator) && isSerializedCondition(operand) ? parseCondition(operand) :
+      operator === 'in' && Array.isArray(operand) ? operand.map(deserializeOperand) :
+          deserializeOperand(operand);
+}
+
 function parseCondition(c: SerializedCondition): Condition<unknown> {
   const {operator, operands} = c;
   const f = Condition[operatorMap[operator]] as any;
 
-  return f(...operands.map(o => isSerializedCondition(o) ? parseCondition(o) : o));
+  return f(...operands.map(o => deserializeConditionOperand(operator, o)));
+}
+
+function literalValue<T>(operand: OperandValue<T>): T {
+  return operand instanceof Literal ? operand.value : operand as T;
+}
+
+/**
+ * Whether two values can be ordered, i.e., are both numbers or both strings. DynamoDB evaluates comparisons of other
+ * values, including missing attributes, as false.
+ * @param a
+ * @param b
+ */
+function isComparable(a: unknown, b: unknown): boolean {
+  return typeof a === typeof b && (typeof a === 'number' || typeof a === 'string');
+}
+
+/**
+ * Whether two values are both present and equal. DynamoDB evaluates both = and <> involving a missing attribute as
+ * false.
+ * @param a
+ * @param b
+ */
+function isPresentAndEqual(a: unknown, b: unknown): boolean {
+  return a !== undefined && b !== undefined && isEqual(a, b);
 }
 
 /**
@@ -125,10 +241,10 @@ export class Condition<T> implements SerializedCondition {
   toJSON(): SerializedCondition {
     const {operator, operands} = this;
 
-    return {operator, operands};
+    return {operator, operands: operands.map(o => serializeConditionOperand(operator, o))};
   }
 
-  private static comparator<T>(operator: Comparator, value: T, evaluate: EvaluateCondition<T>): Condition<T> {
+  private static comparator<T>(operator: Comparator, value: OperandValue<T>, evaluate: EvaluateCondition<T>): Condition<T> {
     return new Condition<T>(operator, [value], (key, builder) => ({
       expression: `${builder.addOperand(key, 'name')} ${operator} ${builder.addOperand(value, 'value')}`
     }), evaluate);
@@ -166,48 +282,60 @@ export class Condition<T> implements SerializedCondition {
    * Create a condition for the given value with the operator '='
    * @param value
    */
-  static eq<T>(value: T): Condition<T> {
-    return Condition.comparator('=', value, v => v === value);
+  static eq<T>(value: OperandValue<T>): Condition<T> {
+    const v = literalValue(value);
+
+    return Condition.comparator('=', value, x => isPresentAndEqual(x, v));
   }
 
   /**
    * Create a condition for the given value with the operator '>'
    * @param value
    */
-  static gt<T>(value: T): Condition<T> {
-    return Condition.comparator('>', value, v => v > value);
+  static gt<T>(value: OperandValue<T>): Condition<T> {
+    const v = literalValue(value);
+
+    return Condition.comparator('>', value, x => isComparable(x, v) && x > v);
   }
 
   /**
    * Create a condition for the given value with the operator '>='
    * @param value
    */
-  static ge<T>(value: T): Condition<T> {
-    return Condition.comparator('>=', value, v => v >= value);
+  static ge<T>(value: OperandValue<T>): Condition<T> {
+    const v = literalValue(value);
+
+    return Condition.comparator('>=', value, x => isComparable(x, v) && x >= v);
   }
 
   /**
    * Create a condition for the given value with the operator '<'
    * @param value
    */
-  static lt<T>(value: T): Condition<T> {
-    return Condition.comparator('<', value, v => v < value);
+  static lt<T>(value: OperandValue<T>): Condition<T> {
+    const v = literalValue(value);
+
+    return Condition.comparator('<', value, x => isComparable(x, v) && x < v);
   }
 
   /**
    * Create a condition for the given value with the operator '<='
    * @param value
    */
-  static le<T>(value: T): Condition<T> {
-    return Condition.comparator('<=', value, v => v <= value);
+  static le<T>(value: OperandValue<T>): Condition<T> {
+    const v = literalValue(value);
+
+    return Condition.comparator('<=', value, x => isComparable(x, v) && x <= v);
   }
 
   /**
    * Create a condition for the given value with the operator '>'
    * @param value
    */
-  static neq<T>(value: T): Condition<T> {
-    return Condition.comparator('<>', value, v => v !== value);
+  static neq<T>(value: OperandValue<T>): Condition<T> {
+    const v = literalValue(value);
+
+    return Condition.comparator('<>', value, x => x !== undefined && v !== undefined && !isEqual(x, v));
   }
 
   /**
@@ -216,13 +344,15 @@ export class Condition<T> implements SerializedCondition {
    * @param minValue
    * @param maxValue
    */
-  static between<T>(minValue: T, maxValue: T): Condition<T> {
+  static between<T>(minValue: OperandValue<T>, maxValue: OperandValue<T>): Condition<T> {
+    const [min, max] = [minValue, maxValue].map(literalValue);
+
     return new Condition<T>('between', [minValue, maxValue], (key, builder) => ({
       expression: `${builder.addOperand(key, 'name')} BETWEEN ${
           [minValue, maxValue]
               .map((operand, i) => builder.addOperand(operand, 'value', `between${i}`))
               .join(' AND ')}`
-    }), v => v >= minValue && v <= maxValue);
+    }), v => isComparable(v, min) && isComparable(v, max) && v >= min && v <= max);
   }
 
   /**
@@ -230,11 +360,13 @@ export class Condition<T> implements SerializedCondition {
    * where the target value must be equal to one of the given values
    * @param operands
    */
-  static in<T>(operands: T[]): Condition<T> {
+  static in<T>(operands: Array<OperandValue<T>>): Condition<T> {
+    const values = operands.map(literalValue);
+
     return new Condition<T>('in', [operands], (key, builder) => ({
       expression: `${builder.addOperand(key, 'name')} IN (${
           operands.map((operand, i) => builder.addOperand(operand, 'value', `in${i}`)).join(', ')})`
-    }), v => operands.includes(v));
+    }), v => values.some(value => isPresentAndEqual(v, value)));
   }
 
   /**
@@ -288,25 +420,36 @@ export class Condition<T> implements SerializedCondition {
    * using the DynamoDB function begins_with(path, substr)
    * @param substr
    */
-  static beginsWith<T extends string>(substr: string): Condition<T> {
-    return Condition.func('begins_with', [substr], v => v.startsWith(substr));
+  static beginsWith<T extends string>(substr: OperandValue<string>): Condition<T> {
+    const prefix = literalValue(substr);
+
+    return Condition.func('begins_with', [substr], v =>
+        typeof v === 'string' && typeof prefix === 'string' && v.startsWith(prefix));
   }
 
   /**
-   * Create a condition for the attribute being either a string that contains with the given substring or for
-   * the attribute being a Set that contains at least one element from the given subset, i.e.,
-   * using the DynamoDB function contains(path, operand)
+   * Create a condition for the attribute being either a string that contains with the given substring, a list that
+   * contains the given element or a Set that contains the given element or at least one element from the given
+   * subset, i.e., using the DynamoDB function contains(path, operand)
    * @param operand
    */
-  static contains<T extends string | Set<unknown>>(operand: T): Condition<T extends string ? string : T> {
-    return Condition.func('contains', [operand], v => {
+  static contains<T extends string | Set<unknown>>(operand: OperandValue<T>): Condition<T extends string ? string : T> {
+    const value: unknown = literalValue(operand);
+
+    return Condition.func('contains', [operand], (v: unknown) => {
       if (typeof v === 'string') {
-        return v.includes(operand as string);
+        return typeof value === 'string' && v.includes(value);
       }
+      if (Array.isArray(v)) {
+        return v.some(element => isEqual(element, value));
+      }
+      if (v instanceof Set) {
+        const elements = value instanceof Set ? [...value] : [value];
 
-      const set = v as Set<unknown>;
+        return elements.some(element => [...v].some(x => isEqual(x, element)));
+      }
 
-      return [...operand as Set<unknown>].some(x => set.has(x));
+      return false;
     });
   }
 
@@ -364,15 +507,42 @@ export class Condition<T> implements SerializedCondition {
 
     return this;
   }
+
+  /**
+   * Simplify this condition into a smaller but equivalent condition, i.e., flattening nested AND/OR conditions,
+   * removing duplicates, folding double negations, merging equality alternatives into IN conditions and merging
+   * >= and <= conditions with literal operands into BETWEEN conditions.
+   * Example:
+   *
+   * Condition.or(Condition.or(1, 2), Condition.not(Condition.not(3))).simplify(); // Condition.in([1, 2, 3])
+   */
+  simplify(): Condition<T> {
+    return simplifyCondition(this);
+  }
 }
 
 /**
  * @deprecated Use buildConditionParams or buildKeyConditionParams
  * @param conditions Condition set
  * @param params in/out params; attribute params from the conditions will be inserted here
+ * @param [options] Options such as the naming strategy for value placeholders
+ * @throws ExpressionValidationError if strict mode is enabled and the expression violates DynamoDB limits
  */
-export function buildConditionExpression<T>(conditions: ConditionSet<T>, params: Partial<Params>): string | undefined {
-  return new ConditionExpressionBuilder(params).build(conditions) || undefined;
+export function buildConditionExpression<T>(
+    conditions: ConditionSet<T>,
+    params: Partial<Params>,
+    options?: ExpressionBuilderOptions): string | undefined {
+  const expression = new ConditionExpressionBuilder(params, options).build(conditions) || undefined;
+
+  if (expression && options?.strict) {
+    const violations = validateConditionExpression(expression, conditions);
+
+    if (violations.length) {
+      throw new ExpressionValidationError(violations);
+    }
+  }
+
+  return expression;
 }
 
 /**
@@ -381,11 +551,12 @@ export function buildConditionExpression<T>(conditions: ConditionSet<T>, params:
  * @param [params] Optional other params such as TableName, additional ExpressionAttributeNames etc.
  *                 This object will be merged with the produced ConditionExpression and associated
  *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders
  */
 export function buildConditionParams<T, P extends Record<string, unknown>>(
-    {conditions, params = {} as P}: {conditions: ConditionSet<T>, params?: P}
+    {conditions, params = {} as P, options}: {conditions: ConditionSet<T>, params?: P, options?: ExpressionBuilderOptions}
 ): ConditionParams & P {
-  const expression = buildConditionExpression(conditions, params);
+  const expression = buildConditionExpression(conditions, params, options);
 
   if (!expression) {
     throw new Error(`Cannot build condition expression for empty conditions`);
@@ -394,17 +565,56 @@ export function buildConditionParams<T, P extends Record<string, unknown>>(
   return Object.assign(params, {ConditionExpression: expression}) as P & ConditionParams;
 }
 
+/**
+ * Build key condition params to be used for a query() call to the DynamoDB client, validating the conditions against
+ * the key schema of the queried table or index.
+ * @param conditions Key conditions
+ * @param keySchema Key schema of the queried table or index
+ * @param [params] Optional other params such as TableName, additional ExpressionAttributeNames etc.
+ *                 This object will be merged with the produced KeyConditionExpression and associated
+ *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders
+ * @throws Error if the conditions are not valid key conditions for the key schema
+ */
+export function buildKeyConditionParams<PK extends string, SK extends string = never,
+    P extends Record<string, unknown> = Record<string, unknown>>(
+    {conditions, keySchema, params, options}: {
+      conditions: KeyConditionAttributes<PK, SK>,
+      keySchema: KeySchema<PK, SK>,
+      params?: P,
+      options?: ExpressionBuilderOptions
+    }
+): KeyConditionParams & P;
 /**
  * Build key condition params to be used for a query() call to the DynamoDB client
  * @param conditions Update conditions
  * @param [params] Optional other params such as TableName, additional ExpressionAttributeNames etc.
  *                 This object will be merged with the produced KeyConditionExpression and associated
  *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders
  */
 export function buildKeyConditionParams<T, P extends Record<string, unknown>>(
-    {conditions, params = {} as P}: {conditions: ConditionSet<T>, params?: P}
+    {conditions, params, options}: {
+      conditions: ConditionSet<T>,
+      keySchema?: undefined,
+      params?: P,
+      options?: ExpressionBuilderOptions
+    }
+): KeyConditionParams & P;
+
+export function buildKeyConditionParams<T, P extends Record<string, unknown>>(
+    {conditions, keySchema, params = {} as P, options}: {
+      conditions: ConditionSet<T>,
+      keySchema?: KeySchema<string, string>,
+      params?: P,
+      options?: ExpressionBuilderOptions
+    }
 ): KeyConditionParams & P {
-  const expression = buildConditionExpression(conditions, params);
+  if (keySchema) {
+    validateKeyConditions(conditions, keySchema);
+  }
+
+  const expression = buildConditionExpression(conditions, params, options);
 
   if (!expression) {
     throw new Error(`Cannot build key condition expression for empty conditions`);
@@ -418,11 +628,12 @@ export function buildKeyConditionParams<T, P extends Record<string, unknown>>(
  * @param [params] Optional other params such as TableName, additional ExpressionAttributeNames etc.
  *                 This object will be merged with the produced ConditionExpression and associated
  *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders
  */
 export function buildFilterParams<T, P extends Record<string, unknown>>(
-    {conditions, params = {} as P}: {conditions: ConditionSet<T>, params?: P}
+    {conditions, params = {} as P, options}: {conditions: ConditionSet<T>, params?: P, options?: ExpressionBuilderOptions}
 ): FilterParams & P {
-  const expression = buildConditionExpression(conditions, params);
+  const expression = buildConditionExpression(conditions, params, options);
 
   if (!expression) {
     throw new Error(`Cannot build condition expression for empty conditions`);
@@ -0,0 +1,148 @@
+import {CompositeCondition} from './CompositeCondition';
+import {AttributeType, buildConditionParams, Condition, ConditionParams, ConditionSet, ConditionValue} from './Condition';
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+import {OperandValue} from './Operand';
+
+/**
+ * The type of the attribute at the given path of T, or unknown if the path is not a top-level attribute of T
+ */
+export type AttributeOf<T, K extends string> = K extends keyof T ? T[K] : unknown;
+
+/**
+ * A fluent builder for condition sets, combining all added conditions with AND, in the order in which they're added.
+ * Unlike ConditionAttributes, several conditions may be added for the same path.
+ * Example:
+ *
+ * new ConditionBuilder<Item>()
+ *     .attributeExists('id')
+ *     .gt('count', 0)
+ *     .lt('count', 10)
+ *     .or(b => b.eq('status', 'active'), b => b.beginsWith('status', 'pending'))
+ *     .build({params: {TableName: 'items'}});
+ * // ConditionExpression:
+ * //   '(attribute_exists(#id) AND #count > :cond_ AND #count < :cond_1 AND
+ * //     (#status = :cond_2 OR begins_with(#status, :cond_begins_with_arg0)))'
+ */
+export class ConditionBuilder<T = Record<string, unknown>> {
+  private readonly operands: Array<ConditionSet<T>> = [];
+
+  /**
+   * Add a condition on the given path
+   * @param path Attribute path
+   * @param condition A literal value, which is treated as an equality condition, a typed operand or a Condition
+   */
+  where<K extends string>(path: K, condition: ConditionValue<AttributeOf<T, K>>): this {
+    return this.and({[path]: condition} as ConditionSet<T>);
+  }
+
+  eq<K extends string>(path: K, value: OperandValue<AttributeOf<T, K>>): this {
+    return this.where(path, Condition.eq(value));
+  }
+
+  neq<K extends string>(path: K, value: OperandValue<AttributeOf<T, K>>): this {
+    return this.where(path, Condition.neq(value));
+  }
+
+  lt<K extends string>(path: K, value: OperandValue<AttributeOf<T, K>>): this {
+    return this.where(path, Condition.lt(value));
+  }
+
+  le<K extends string>(path: K, value: OperandValue<AttributeOf<T, K>>): this {
+    return this.where(path, Condition.le(value));
+  }
+
+  gt<K extends string>(path: K, value: OperandValue<AttributeOf<T, K>>): this {
+    return this.where(path, Condition.gt(value));
+  }
+
+  ge<K extends string>(path: K, value: OperandValue<AttributeOf<T, K>>): this {
+    return this.where(path, Condition.ge(value));
+  }
+
+  between<K extends string>(
+      path: K,
+      minValue: OperandValue<AttributeOf<T, K>>,
+      maxValue: OperandValue<AttributeOf<T, K>>): this {
+    return this.where(path, Condition.between(minValue, maxValue));
+  }
+
+  in<K extends string>(path: K, values: Array<OperandValue<AttributeOf<T, K>>>): this {
+    return this.where(path, Condition.in(values));
+  }
+
+  beginsWith(path: string, substr: OperandValue<string>): this {
+    return this.and({[path]: Condition.beginsWith(substr)} as ConditionSet<T>);
+  }
+
+  contains(path: string, operand: OperandValue<unknown>): this {
+    return this.and({[path]: Condition.contains(operand as OperandValue<string>)} as ConditionSet<T>);
+  }
+
+  attributeExists(path: string): this {
+    return this.where(path, Condition.attributeExists());
+  }
+
+  attributeNotExists(path: string): this {
+    return this.where(path, Condition.attributeNotExists());
+  }
+
+  attributeType(path: string, type: AttributeType): this {
+    return this.where(path, Condition.attributeType(type));
+  }
+
+  /**
+   * Add a condition set, e.g. a composite condition built using ConditionSet.or()
+   * @param conditions
+   */
+  and(conditions: ConditionSet<T> | ConditionBuilder<T>): this {
+    this.operands.push(conditions instanceof ConditionBuilder ? conditions.toConditionSet() : conditions);
+    return this;
+  }
+
+  /**
+   * Add an OR condition of the conditions added by each of the given functions to a new builder
+   * Example:
+   *
+   * new ConditionBuilder().or(b => b.eq('a', 1), b => b.attributeNotExists('a').eq('b', 2));
+   * // (#a = :cond_ OR attribute_not_exists(#a) AND #b = :cond_1)
+   * @param alternatives Functions adding conditions to the given builder
+   */
+  or(...alternatives: Array<(builder: ConditionBuilder<T>) => ConditionBuilder<T>>): this {
+    return this.and(ConditionSet.or(...alternatives.map(f => f(new ConditionBuilder<T>()).toConditionSet())));
+  }
+
+  /**
+   * Return the condition set combining all added conditions, which may be passed to any of the build*Params functions.
+   * Consecutive conditions on different paths are combined into a single ConditionAttributes object.
+   */
+  toConditionSet(): ConditionSet<T> {
+    const merged: Array<ConditionSet<T>> = [];
+
+    for (const operand of this.operands) {
+      const last = merged[merged.length - 1];
+
+      if (last && !(last instanceof CompositeCondition) && !(operand instanceof CompositeCondition) &&
+          Object.keys(operand).every(key => !(key in last))) {
+        merged[merged.length - 1] = {...last, ...operand};
+      } else {
+        merged.push(operand);
+      }
+    }
+
+    return merged.length > 1 ? ConditionSet.and(...merged) : merged[0] ?? {};
+  }
+
+  /**
+   * Build condition params to be used for a put(), update() or delete() call to the DynamoDB client
+   * @param [params] Optional other params such as TableName, additional ExpressionAttributeNames etc.
+   *                 This object will be merged with the produced ConditionExpression and associated
+   *                 ExpressionAttributeNames/Values.
+   * @param [options] Options such as the naming strategy for value placeholders
+   * @throws Error if no conditions were added
+   */
+  build<P extends Record<string, unknown>>(
+      {params, options}: {params?: P; options?: ExpressionBuilderOptions} = {}
+  ): ConditionParams & P {
+    return buildConditionParams({conditions: this.toConditionSet(), params, options});
+  }
+}
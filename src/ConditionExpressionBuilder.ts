@@ -10,7 +10,7 @@ export class ConditionExpressionBuilder<T> extends ExpressionBuilder<ConditionAt
 
     if (conditions instanceof CompositeCondition) {
       const expressions = conditions.operands
-          .map(operand => new ConditionExpressionBuilder(this.params).build(operand))
+          .map(operand => new ConditionExpressionBuilder(this.params, this.options).build(operand))
           .filter(expression => expression);
 
       expr = expressions.join(` ${conditions.operator} `);
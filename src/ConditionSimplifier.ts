@@ -0,0 +1,197 @@
+import {parseOperand} from './AttributePath';
+import {CompositeCondition} from './CompositeCondition';
+import {Condition, ConditionAttributes, ConditionSet} from './Condition';
+import {Expression} from './Expression';
+import {canonicalize} from './ExpressionBuilder';
+import {TypedOperand} from './Operand';
+
+// https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/ServiceQuotas.html#limits-expression-parameters
+const MAX_IN_OPERANDS = 100;
+
+/**
+ * Get a string which is equal for equivalent conditions or operands
+ * @param value
+ */
+function keyOf(value: unknown): string {
+  if (value instanceof Condition) {
+    return `${value.operator}(${value.operands.map(keyOf).join(',')})`;
+  }
+  if (value instanceof TypedOperand || value instanceof Expression) {
+    return `${value.constructor.name}${canonicalize(value.toJSON())}`;
+  }
+  if (value instanceof CompositeCondition) {
+    return `${value.operator}(${value.operands.map(keyOf).join(',')})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(keyOf).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null && value.constructor === Object) {
+    return `{${Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => `${JSON.stringify(k)}:${keyOf(v)}`)
+        .join(',')}}`;
+  }
+
+  return canonicalize(value);
+}
+
+function unique<V>(values: V[]): V[] {
+  const keys = values.map(keyOf);
+
+  return values.filter((value, i) => keys.indexOf(keys[i]) === i);
+}
+
+function isLiteral(operand: unknown): boolean {
+  return !(operand instanceof Expression) && 'value' in parseOperand(operand, 'value');
+}
+
+function literalValue(operand: unknown): unknown {
+  const parsed = parseOperand(operand, 'value');
+
+  return 'value' in parsed ? parsed.value : undefined;
+}
+
+/**
+ * Merge equality and IN conditions with literal operands into a single IN condition
+ * @param conditions Operands of an OR condition
+ */
+function mergeAlternatives<T>(conditions: Array<Condition<T>>): Array<Condition<T>> {
+  const isAlternative = ({operator, operands}: Condition<T>) =>
+      (operator === '=' && isLiteral(operands[0])) ||
+      (operator === 'in' && (operands[0] as unknown[]).every(isLiteral));
+  const alternatives = conditions.filter(isAlternative);
+  const values = unique(alternatives.flatMap(({operator, operands}) =>
+      operator === 'in' ? operands[0] as T[] : [operands[0] as T]));
+
+  if (alternatives.length < 2 || values.length > MAX_IN_OPERANDS) {
+    return conditions;
+  }
+
+  const merged = values.length === 1 ? Condition.eq(values[0]) : Condition.in(values);
+
+  return conditions
+      .map(c => c === alternatives[0] ? merged : c)
+      .filter(c => !alternatives.includes(c));
+}
+
+/**
+ * Merge a >= condition and a <= condition with literal operands into a single BETWEEN condition
+ * @param conditions Operands of an AND condition
+ */
+function mergeRange<T>(conditions: Array<Condition<T>>): Array<Condition<T>> {
+  const lower = conditions.find(({operator, operands}) => operator === '>=' && isLiteral(operands[0]));
+  const upper = conditions.find(({operator, operands}) => operator === '<=' && isLiteral(operands[0]));
+
+  if (!lower || !upper) {
+    return conditions;
+  }
+
+  const [min, max] = [lower, upper].map(({operands}) => literalValue(operands[0])) as [any, any];
+
+  // DynamoDB rejects BETWEEN with a lower bound greater than the upper bound, or with operands of different types
+  if (typeof min !== typeof max || !['number', 'string'].includes(typeof min) || min > max) {
+    return conditions;
+  }
+
+  const merged = Condition.between<T>(lower.operands[0] as T, upper.operands[0] as T);
+
+  return conditions
+      .map(c => c === lower ? merged : c)
+      .filter(c => c !== upper);
+}
+
+/**
+ * Simplify a condition into a smaller but equivalent condition, i.e., flattening nested AND/OR conditions, removing
+ * duplicates, folding double negations, merging equality alternatives into IN conditions and merging >= and <=
+ * conditions into BETWEEN conditions.
+ * @param condition
+ */
+export function simplifyCondition<T>(condition: Condition<T>): Condition<T> {
+  const {operator, operands} = condition;
+
+  if (operator === 'not') {
+    const operand = simplifyCondition(Condition.from(operands[0] as T));
+
+    return operand.operator === 'not' ? simplifyCondition(Condition.from(operand.operands[0] as T)) : Condition.not(operand);
+  }
+
+  if (operator !== 'and' && operator !== 'or') {
+    return condition;
+  }
+
+  let conditions = unique(operands
+      .map(operand => simplifyCondition(Condition.from(operand as T)))
+      .flatMap(c => c.operator === operator ? c.operands.map(operand => Condition.from(operand as T)) : [c]));
+
+  conditions = operator === 'or' ? mergeAlternatives(conditions) : mergeRange(conditions);
+
+  if (conditions.length === 1) {
+    return conditions[0];
+  }
+
+  return operator === 'or' ? Condition.or(...conditions) : Condition.and(...conditions);
+}
+
+function isEmpty<T>(conditions: ConditionSet<T>): boolean {
+  return conditions instanceof CompositeCondition ?
+      !conditions.operands.length :
+      !Object.keys(conditions).length;
+}
+
+function simplifyAttributes<T>(attributes: ConditionAttributes<T>): ConditionAttributes<T> {
+  return Object.fromEntries(Object.entries(attributes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, simplifyCondition(Condition.from(value))])) as ConditionAttributes<T>;
+}
+
+/**
+ * Merge condition attributes into a single object, combining conditions on the same attribute
+ * @param operator Operator used to combine conditions on the same attribute
+ * @param attributes
+ */
+function mergeAttributes<T>(operator: 'and' | 'or', attributes: Array<ConditionAttributes<T>>): ConditionAttributes<T> {
+  const merged: Record<string, Array<Condition<unknown>>> = {};
+
+  for (const [key, value] of attributes.flatMap(a => Object.entries(a))) {
+    (merged[key] = merged[key] ?? []).push(Condition.from(value));
+  }
+
+  return simplifyAttributes(Object.fromEntries(Object.entries(merged)
+      .map(([key, conditions]) => [key, conditions.length === 1 ? conditions[0] :
+          operator === 'and' ? Condition.and(...conditions) : Condition.or(...conditions)])) as ConditionAttributes<T>);
+}
+
+/**
+ * Simplify a condition set into a smaller but equivalent condition set, i.e., flattening nested composite
+ * conditions, merging conditions on the same attribute and simplifying each condition using simplifyCondition().
+ * @param conditions
+ */
+export function simplifyConditionSet<T>(conditions: ConditionSet<T>): ConditionSet<T> {
+  if (!(conditions instanceof CompositeCondition)) {
+    return simplifyAttributes(conditions);
+  }
+
+  const {operator} = conditions;
+  const operands = unique(conditions.operands
+      .map(simplifyConditionSet)
+      .filter(operand => !isEmpty(operand))
+      .flatMap(operand =>
+          operand instanceof CompositeCondition && operand.operator === operator ? operand.operands : [operand]));
+
+  // All attributes of AND operands may be merged, while only OR operands with a single attribute may be merged
+  const isMergeable = (operand: ConditionSet<T>) => !(operand instanceof CompositeCondition) &&
+      (operator === 'AND' || Object.keys(operand).length === 1);
+  const mergeable = operands.filter(isMergeable) as Array<ConditionAttributes<T>>;
+  const simplified: Array<ConditionSet<T>> = [];
+
+  if (operator === 'AND' && mergeable.length) {
+    simplified.push(mergeAttributes('and', mergeable));
+  } else if (operator === 'OR') {
+    const keys = unique(mergeable.map(operand => Object.keys(operand)[0]));
+
+    simplified.push(...keys.map(key => mergeAttributes('or', mergeable.filter(operand => key in operand))));
+  }
+
+  simplified.push(...operands.filter(operand => !isMergeable(operand)));
+
+  return simplified.length === 1 ? simplified[0] : new CompositeCondition(operator, simplified);
+}
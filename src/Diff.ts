@@ -0,0 +1,170 @@
+import {Condition, ConditionAttributes} from './Condition';
+import {isEqual} from './ExpressionBuilder';
+import {Operand} from './Operand';
+import {UpdateAction, UpdateAttributes} from './UpdateAction';
+
+export interface DiffOptions {
+  /**
+   * Whether to also produce conditions asserting that each changed attribute still has its old value, to avoid lost
+   * updates; false by default.
+   */
+  conditions?: boolean;
+  /**
+   * Names of key attributes, which cannot be updated and are therefore ignored. An error is thrown if they differ.
+   */
+  keyAttributes?: string[];
+}
+
+export interface UpdateDiff<T> {
+  attributes: UpdateAttributes<T>;
+  conditions?: ConditionAttributes<T>;
+}
+
+type Change = {path: string; action: UpdateAction<unknown>; oldValue: unknown};
+
+function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && (value as any).constructor === Object;
+}
+
+/**
+ * Set a literal value, which is never treated as a path even if it's a string containing #
+ * @param value
+ */
+function set(value: unknown): UpdateAction<unknown> {
+  return UpdateAction.set(Operand.value(value));
+}
+
+function isPathElement(name: string): boolean {
+  return !/[.[\]()]/.test(name) && name.length > 0;
+}
+
+function childPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+/**
+ * Get an update attributes key for a path, escaping it if it would otherwise be treated as a value or an expression
+ * @param path
+ */
+function toKey(path: string): string {
+  return path.includes('#') || path.startsWith(':') ? `#${path}` : path;
+}
+
+function diffSets(path: string, oldSet: Set<unknown>, newSet: Set<unknown>): Change[] {
+  const added = [...newSet].filter(v => !oldSet.has(v));
+  const removed = [...oldSet].filter(v => !newSet.has(v));
+
+  if (!newSet.size) {
+    // DynamoDB doesn't support empty sets
+    return [{path, action: UpdateAction.remove(), oldValue: oldSet}];
+  }
+
+  if (added.length && removed.length) {
+    // A path may only be used once in an update expression
+    return [{path, action: set(newSet), oldValue: oldSet}];
+  }
+
+  return [added.length ?
+      {path, action: UpdateAction.add(new Set(added)), oldValue: oldSet} :
+      {path, action: UpdateAction.delete(new Set(removed)), oldValue: oldSet}];
+}
+
+function diffLists(path: string, oldList: unknown[], newList: unknown[]): Change[] {
+  const changes = newList.flatMap((value, i) => diffValues(`${path}[${i}]`, oldList[i], value));
+
+  // Removed elements are removed from the end, so the indexes of other elements are not affected
+  for (let i = newList.length; i < oldList.length; i++) {
+    changes.push({path: `${path}[${i}]`, action: UpdateAction.remove(), oldValue: oldList[i]});
+  }
+
+  if (changes.length > 1 && changes.length >= newList.length) {
+    // Replacing the entire list is simpler than changing every element
+    return [{path, action: set(newList), oldValue: oldList}];
+  }
+
+  return changes;
+}
+
+function diffMaps(path: string, oldMap: Record<string, unknown>, newMap: Record<string, unknown>): Change[] {
+  const names = [...new Set([...Object.keys(oldMap), ...Object.keys(newMap)])];
+
+  if (path && !names.every(isPathElement)) {
+    // Names that cannot be used in paths require replacing the entire map
+    return [{path, action: set(newMap), oldValue: oldMap}];
+  }
+
+  return names.flatMap(name => {
+    if (!path && !isPathElement(name) && !isEqual(oldMap[name], newMap[name])) {
+      throw new Error(`Cannot update attribute '${name}' with a name containing any of . [ ] ( )`);
+    }
+
+    return diffValues(childPath(path, name), oldMap[name], newMap[name]);
+  });
+}
+
+function diffValues(path: string, oldValue: unknown, newValue: unknown): Change[] {
+  if (isEqual(oldValue, newValue)) {
+    return [];
+  }
+  if (newValue === undefined) {
+    return [{path, action: UpdateAction.remove(), oldValue}];
+  }
+  if (isMap(oldValue) && isMap(newValue)) {
+    return diffMaps(path, oldValue, newValue);
+  }
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    return diffLists(path, oldValue, newValue);
+  }
+  if (oldValue instanceof Set && newValue instanceof Set) {
+    return diffSets(path, oldValue, newValue);
+  }
+  if (newValue instanceof Set && !newValue.size) {
+    return [{path, action: UpdateAction.remove(), oldValue}];
+  }
+
+  return [{path, action: set(newValue), oldValue}];
+}
+
+/**
+ * Build update attributes that update an item from its old version to its new version, using as few actions as
+ * possible; nested maps and lists are updated element by element, and sets are updated using ADD or DELETE actions.
+ * Optionally, conditions asserting that each changed attribute still has its old value are also produced, to avoid
+ * overwriting concurrent updates.
+ * Example:
+ *
+ * const {attributes, conditions} = buildUpdateFromDiff(
+ *     {id: 1, a: {b: 1, c: 2}, tags: new Set(['x'])},
+ *     {id: 1, a: {b: 2, c: 2}, tags: new Set(['x', 'y'])},
+ *     {conditions: true, keyAttributes: ['id']});
+ *
+ * This creates an update expression like 'SET #a.#a_b = :val_set ADD #tags :val_add' and a condition expression
+ * like '#a.#a_b = :cond_ AND #tags = :cond_1'
+ * @param oldItem Old version of the item
+ * @param newItem New version of the item
+ * @param [options] Options such as whether to produce conditions
+ * @throws Error if key attributes differ, or if an attribute name cannot be used in a path
+ */
+export function buildUpdateFromDiff<T>(oldItem: T, newItem: T, options: DiffOptions = {}): UpdateDiff<T> {
+  const {keyAttributes = []} = options;
+  const [oldMap, newMap] = [oldItem, newItem].map(item => ({...item})) as Array<Record<string, unknown>>;
+
+  for (const name of keyAttributes) {
+    if (!isEqual(oldMap[name], newMap[name])) {
+      throw new Error(`Cannot update key attribute '${name}'`);
+    }
+    delete oldMap[name];
+    delete newMap[name];
+  }
+
+  const changes = diffMaps('', oldMap, newMap);
+  const attributes = Object.fromEntries(changes.map(({path, action}) => [toKey(path), action])) as UpdateAttributes<T>;
+
+  if (!options.conditions) {
+    return {attributes};
+  }
+
+  const conditions = Object.fromEntries(changes.map(({path, oldValue}) =>
+      [toKey(path), oldValue === undefined ? Condition.attributeNotExists() : Condition.eq(Operand.value(oldValue))]));
+
+  return {attributes, conditions: conditions as ConditionAttributes<T>};
+}
@@ -0,0 +1,286 @@
+import {marshall} from './AttributeValue';
+import {buildConditionExpression, ConditionSet} from './Condition';
+import {Params} from './ExpressionBuilder';
+import {buildUpdateExpression, UpdateAttributes} from './UpdateAction';
+
+export interface ExplainOptions {
+  /**
+   * Whether to redact values, showing only their types, or a function returning whether to redact a given value;
+   * false by default.
+   */
+  redact?: boolean | ((value: unknown) => boolean);
+  /**
+   * The maximum line length, beyond which AND/OR conditions and update clauses are split over multiple indented
+   * lines; 80 by default.
+   */
+  maxWidth?: number;
+  /**
+   * The format of values in explained params; 'native' by default. See ExpressionBuilderOptions.
+   */
+  valueFormat?: 'native' | 'attributeValue';
+}
+
+const INDENT = '  ';
+const DEFAULT_MAX_WIDTH = 80;
+const EXPRESSION_KEYS = [
+  'KeyConditionExpression', 'FilterExpression', 'ConditionExpression', 'UpdateExpression', 'ProjectionExpression'
+] as const;
+const UPDATE_CLAUSES = ['SET', 'REMOVE', 'ADD', 'DELETE'];
+
+type ExpressionKey = typeof EXPRESSION_KEYS[number];
+
+/**
+ * Split an expression on the given separator, ignoring separators within parentheses
+ * @param expression
+ * @param separator
+ */
+function splitTopLevel(expression: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < expression.length; i++) {
+    const c = expression[i];
+
+    if (c === '(') {
+      depth++;
+    } else if (c === ')') {
+      depth--;
+    } else if (!depth && expression.startsWith(separator, i)) {
+      parts.push(expression.substring(start, i));
+      start = i + separator.length;
+    }
+  }
+
+  return [...parts, expression.substring(start)];
+}
+
+/**
+ * Split a condition expression into the operands of a top-level AND or OR operator, if any
+ * @param expression
+ * @param operator
+ */
+function splitLogical(expression: string, operator: 'AND' | 'OR'): string[] {
+  const operands: string[][] = [[]];
+  let between = false;
+
+  for (const word of splitTopLevel(expression, ' ')) {
+    if (word === operator && !(operator === 'AND' && between)) {
+      operands.push([]);
+    } else {
+      between = word === 'BETWEEN' || (between && word !== 'AND');
+      operands[operands.length - 1].push(word);
+    }
+  }
+
+  return operands.map(words => words.join(' '));
+}
+
+/**
+ * Get the expression within the outer parentheses, if the expression is wrapped in parentheses
+ * @param expression
+ */
+function unwrap(expression: string): string | undefined {
+  let depth = 0;
+
+  for (let i = 0; i < expression.length; i++) {
+    depth += expression[i] === '(' ? 1 : expression[i] === ')' ? -1 : 0;
+
+    if (!depth) {
+      return i && i === expression.length - 1 ? expression.substring(1, i) : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+function formatRaw(value: unknown): string {
+  if (value instanceof Set) {
+    return `<<${[...value].map(formatRaw).join(', ')}>>`;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return `<${value.byteLength} bytes>`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatRaw).join(', ')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.entries(value).map(([k, v]) => `${k}: ${formatRaw(v)}`).join(', ')}}`;
+  }
+
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function getType(value: unknown): string {
+  try {
+    return Object.keys(marshall(value))[0];
+  } catch (err) {
+    return '?';
+  }
+}
+
+function formatValue(value: unknown, valueFormat: ExplainOptions['valueFormat'], redact: ExplainOptions['redact']): string {
+  const [type, raw] = valueFormat === 'attributeValue' ?
+      Object.entries(value as Record<string, unknown>)[0] :
+      [getType(value), value];
+  const redacted = typeof redact === 'function' ? redact(raw) : redact;
+  const text = redacted ? '***' :
+      valueFormat === 'attributeValue' && type === 'N' ? String(raw) :
+          formatRaw(raw);
+
+  return `${text} (${type})`;
+}
+
+function formatName(name: string): string {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) ? name : `\`${name}\``;
+}
+
+class Explainer {
+  constructor(
+      private readonly params: Partial<Params>,
+      private readonly valueFormat: ExplainOptions['valueFormat'],
+      private readonly options: ExplainOptions) {
+  }
+
+  resolve(expression: string): string {
+    const {ExpressionAttributeNames: names = {}, ExpressionAttributeValues: values = {}} = this.params;
+    const {redact} = this.options;
+
+    return expression.replace(/[#:][a-zA-Z0-9_]+/g, placeholder =>
+        placeholder[0] === '#' ?
+            placeholder in names ? formatName(names[placeholder]) : placeholder :
+            placeholder in values ? formatValue(values[placeholder], this.valueFormat, redact) : placeholder);
+  }
+
+  fits(line: string, indent = ''): boolean {
+    return indent.length + line.length <= (this.options.maxWidth ?? DEFAULT_MAX_WIDTH);
+  }
+
+  explainCondition(expression: string, indent = ''): string[] {
+    const line = this.resolve(expression);
+
+    if (this.fits(line, indent)) {
+      return [indent + line];
+    }
+
+    const inner = unwrap(expression);
+
+    if (inner !== undefined) {
+      const lines = this.explainCondition(inner, indent + INDENT);
+
+      return lines.length > 1 ? [`${indent}(`, ...lines, `${indent})`] : [indent + line];
+    }
+
+    if (expression.startsWith('NOT ')) {
+      const [first, ...rest] = this.explainCondition(expression.substring(4), indent);
+
+      return [`${indent}NOT ${first.trimStart()}`, ...rest];
+    }
+
+    for (const operator of ['OR', 'AND'] as const) {
+      const operands = splitLogical(expression, operator);
+
+      if (operands.length > 1) {
+        return operands.flatMap((operand, i) => {
+          // Wrap AND operands of OR conditions in parentheses, to not rely on operator precedence
+          const wrapped = operator === 'OR' && splitLogical(operand, 'AND').length > 1 ? `(${operand})` : operand;
+          const [first, ...rest] = this.explainCondition(wrapped, indent);
+
+          return [i ? `${indent}${operator} ${first.trimStart()}` : first, ...rest];
+        });
+      }
+    }
+
+    return [indent + line];
+  }
+
+  explainUpdate(expression: string, indent = ''): string[] {
+    const line = this.resolve(expression);
+
+    if (this.fits(line, indent)) {
+      return [indent + line];
+    }
+
+    const clauses: string[][] = [];
+
+    for (const word of splitTopLevel(expression, ' ')) {
+      if (UPDATE_CLAUSES.includes(word) || !clauses.length) {
+        clauses.push([word]);
+      } else {
+        clauses[clauses.length - 1].push(word);
+      }
+    }
+
+    return clauses.flatMap(([clause, ...words]) => {
+      const actions = splitTopLevel(words.join(' '), ',').map(action => this.resolve(action.trim()));
+
+      return [indent + clause, ...actions.map((action, i) =>
+          `${indent}${INDENT}${action}${i < actions.length - 1 ? ',' : ''}`)];
+    });
+  }
+
+  explain(key: ExpressionKey, expression: string, indent = ''): string[] {
+    switch (key) {
+      case 'UpdateExpression':
+        return this.explainUpdate(expression, indent);
+      case 'ProjectionExpression':
+        return [indent + this.resolve(expression)];
+      default:
+        return this.explainCondition(expression, indent);
+    }
+  }
+}
+
+/**
+ * Render conditions, update attributes or built params as a human-readable expression, with real attribute names
+ * and inlined values annotated with their DynamoDB types, such as 'price > 42 (N)'. Large AND/OR conditions and
+ * update expressions are split over multiple indented lines. This is intended for logging and debugging; the
+ * result is not a valid DynamoDB expression.
+ * Example:
+ *
+ * explain({conditions: {status: 'active', 'address.city': Condition.beginsWith('S')}});
+ * // 'status = "active" (S) AND begins_with(address.city, "S" (S))'
+ * explain({params: buildUpdateParams({attributes: {count: UpdateAction.add(1)}})}, {redact: true});
+ * // 'UpdateExpression: ADD count *** (N)'
+ * @param conditions Conditions to explain
+ * @param attributes Update attributes to explain
+ * @param params Built params to explain, containing expressions such as ConditionExpression and UpdateExpression
+ *               and associated ExpressionAttributeNames/Values. Each expression is rendered on its own line,
+ *               prefixed with its name.
+ * @param [options] Options such as whether to redact values
+ */
+export function explain<T>(
+    {conditions, attributes, params}:
+        {conditions: ConditionSet<T>; attributes?: undefined; params?: undefined} |
+        {attributes: UpdateAttributes<T>; conditions?: undefined; params?: undefined} |
+        {params: Partial<Params> & Partial<Record<ExpressionKey, string>>; conditions?: undefined; attributes?: undefined},
+    options: ExplainOptions = {}
+): string {
+  if (params) {
+    const explainer = new Explainer(params, options.valueFormat, options);
+
+    return EXPRESSION_KEYS
+        .filter(key => params[key] !== undefined)
+        .flatMap(key => {
+          const lines = explainer.explain(key, params[key] as string, INDENT);
+
+          return lines.length > 1 || !explainer.fits(`${key}: ${lines[0].trimStart()}`) ?
+              [`${key}:`, ...lines] :
+              [`${key}: ${lines[0].trimStart()}`];
+        })
+        .join('\n');
+  }
+
+  const builtParams: Partial<Params> = {};
+  const explainer = new Explainer(builtParams, 'native', options);
+
+  if (conditions) {
+    const expression = buildConditionExpression(conditions, builtParams);
+
+    return expression ? explainer.explain('ConditionExpression', expression).join('\n') : '';
+  }
+
+  const expression = buildUpdateExpression(attributes as UpdateAttributes<T>, builtParams);
+
+  return expression ? explainer.explain('UpdateExpression', expression).join('\n') : '';
+}
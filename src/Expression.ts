@@ -0,0 +1,126 @@
+import {isSerializedOperand, Literal, Operand, Path, Size, TypedOperand} from './Operand';
+import ParamsBuilder from './ParamsBuilder';
+import {deserializeValue, serializeValue} from './Serialization';
+
+export interface SerializedExpression {
+  readonly $operand: 'expr';
+  readonly expr: string[];
+  readonly args: unknown[];
+}
+
+export function isSerializedExpression(e: any): e is SerializedExpression {
+  return typeof e === 'object' && e !== null && Object.keys(e).length === 3 && e.$operand === 'expr' &&
+      Array.isArray(e.expr) && e.expr.every((s: unknown) => typeof s === 'string') &&
+      Array.isArray(e.args) && e.args.length === e.expr.length - 1;
+}
+
+/**
+ * Serialize an operand of a condition, set value or expression. Typed operands and expressions are converted to
+ * objects tagged with $operand, such as {$operand: 'path', path: 'a'}, and literal values are serialized using
+ * serializeValue(), so that the two never collide.
+ * @param operand
+ */
+export function serializeOperand(operand: unknown): unknown {
+  return operand instanceof TypedOperand || operand instanceof Expression ? operand.toJSON() : serializeValue(operand);
+}
+
+/**
+ * Deserialize an operand serialized by serializeOperand()
+ * @param operand
+ */
+export function deserializeOperand(operand: unknown): unknown {
+  return isSerializedOperand(operand) ? Operand.fromJSON(operand) :
+      isSerializedExpression(operand) ? Expression.fromJSON(operand) :
+          deserializeValue(operand);
+}
+
+function argToString(arg: unknown): string {
+  return arg instanceof Path ? arg.path :
+      arg instanceof Size ? `size(${arg.path})` :
+          arg instanceof Literal ? JSON.stringify(arg.value) :
+              arg instanceof Expression ? String(arg) :
+                  JSON.stringify(arg);
+}
+
+/**
+ * A raw expression fragment, for constructs not modelled by Condition, UpdateAction or SetValue.
+ * Interpolated paths become escaped attribute names, interpolated expressions are inserted as-is, interpolated typed
+ * operands are built like other operands and all other interpolated values become value placeholders, so no
+ * interpolated argument is ever parsed as expression syntax.
+ * Create expressions using the expr tagged template.
+ */
+export class Expression {
+  private constructor(readonly expr: string[], readonly args: unknown[]) {
+  }
+
+  /**
+   * Create an expression from the strings and arguments of a tagged template
+   * @param strings
+   * @param args
+   */
+  static from(strings: readonly string[], ...args: unknown[]): Expression {
+    return new Expression([...strings], args);
+  }
+
+  /**
+   * Serialize to JSON. The resulting JSON may be parsed into a SerializedExpression object which may be passed to
+   * Expression.fromJSON() to return an equivalent Expression object.
+   */
+  toJSON(): SerializedExpression {
+    return {$operand: 'expr', expr: this.expr, args: this.args.map(serializeOperand)};
+  }
+
+  /**
+   * Create an expression from a serialized expression, as produced by toJSON()
+   * @param e Serialized expression
+   * @throws Error if the given object is not a valid serialized expression
+   */
+  static fromJSON(e: SerializedExpression): Expression {
+    if (!isSerializedExpression(e)) {
+      throw new Error(`Invalid serialized expression: ${JSON.stringify(e)}`);
+    }
+
+    return new Expression(e.expr, e.args.map(deserializeOperand));
+  }
+
+  build(builder: ParamsBuilder, prefix = ''): string {
+    return this.expr.reduce((expression, s, i) => {
+      const arg = this.args[i - 1];
+      const operand =
+          arg instanceof Expression ? arg.build(builder, prefix) :
+              arg instanceof TypedOperand ? builder.addOperand(arg, 'value', prefix) :
+                  // Prefix strings with : to never treat them as names
+                  builder.addOperand(typeof arg === 'string' ? `:${arg}` : arg, 'value', prefix);
+
+      return `${expression}${operand}${s}`;
+    });
+  }
+
+  toString(): string {
+    return this.expr.reduce((expression, s, i) => `${expression}${argToString(this.args[i - 1])}${s}`);
+  }
+}
+
+/**
+ * Create a raw expression, usable as a condition operand or an update value.
+ * Example:
+ *
+ * const attributes = {
+ *   total: expr`${path('price.net')} + ${path('price.tax')} - ${5}`
+ * }
+ *
+ * This creates an update expression like 'SET #total = #price.#price_net + #price.#price_tax - :val_set'
+ */
+export function expr(strings: TemplateStringsArray, ...args: unknown[]): Expression {
+  return Expression.from(strings, ...args);
+}
+
+/**
+ * Create a reference to an attribute path, to be interpolated into an expression created with expr.
+ * Unlike the #path string form, the path may contain any characters, including spaces, # and parentheses.
+ * This is equivalent to Operand.path().
+ * @param path
+ */
+export function path<T = unknown>(path: string): Path<T> {
+  return Operand.path<T>(path);
+}
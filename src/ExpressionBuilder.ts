@@ -1,3 +1,6 @@
+import {marshall} from './AttributeValue';
+import {Expression} from './Expression';
+import {Literal, Path, Size} from './Operand';
 import ParamsBuilder from './ParamsBuilder';
 
 export interface Params {
@@ -10,23 +13,137 @@ function validateKey(key: string) {
   return key.replace(/[^a-zA-Z0-9_]/g, '');
 }
 
-function addUniqueMapping(values: Record<string, unknown>, key: string, value: unknown) {
-  let uniqueKey = key;
+/**
+ * A function producing a placeholder for a value, given the base placeholder (such as :cond_), the value and the
+ * number of previous attempts which produced a placeholder already used by a different value. The placeholder must
+ * start with : like the base placeholder.
+ */
+export type PlaceholderNamer = (key: string, value: unknown, attempt: number) => string;
 
-  while (uniqueKey in values && values[uniqueKey] !== value) {
-    // key exists and has different value, append random
-    uniqueKey = `${key}_${Math.floor(Math.random() * 1000)}`;
+/**
+ * The strategy used for naming value placeholders:
+ * - 'counter': Use the base placeholder, appending a counter if it's already used by a different value (default)
+ * - 'hash': Append a hash of the value to the base placeholder, making placeholders independent of the order in
+ *   which values are added
+ * - A custom function
+ */
+export type NamingStrategy = 'counter' | 'hash' | PlaceholderNamer;
+
+export interface ExpressionBuilderOptions {
+  /**
+   * The strategy used for naming value placeholders; 'counter' by default.
+   */
+  naming?: NamingStrategy;
+  /**
+   * Whether to validate built expressions against DynamoDB limits, throwing an ExpressionValidationError listing
+   * all violations; false by default.
+   */
+  strict?: boolean;
+  /**
+   * The format of values in ExpressionAttributeValues:
+   * - 'native': Native JavaScript values, as used by the DynamoDB DocumentClient (default)
+   * - 'attributeValue': Low-level AttributeValue objects such as {S: 'foo'}, as used by the plain DynamoDB client
+   */
+  valueFormat?: 'native' | 'attributeValue';
+  /**
+   * Whether to merge overlapping update paths where possible, e.g. merging a SET action on a nested path into a SET
+   * action on its parent path, instead of throwing an OverlappingPathsError; false by default.
+   */
+  mergePaths?: boolean;
+}
+
+function appendSuffix(key: string, suffix: string | number): string {
+  return key.endsWith('_') ? `${key}${suffix}` : `${key}_${suffix}`;
+}
+
+/**
+ * Serialize a value into a string which is equal for equal values, also for maps, lists, sets and binary values
+ * @param value
+ */
+export function canonicalize(value: unknown): string {
+  if (value instanceof Set) {
+    return `Set(${[...value].map(canonicalize).sort().join(',')})`;
+  }
+  if (value instanceof Uint8Array) {
+    return `Binary(${value.join(',')})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
   }
-  values[uniqueKey] = value;
-  return uniqueKey;
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).sort()
+        .map(k => `${JSON.stringify(k)}:${canonicalize((value as Record<string, unknown>)[k])}`)
+        .join(',')}}`;
+  }
+
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+export function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || (typeof a === typeof b && typeof a === 'object' && canonicalize(a) === canonicalize(b));
 }
 
-export abstract class ExpressionBuilder<A extends Record<string, unknown>> implements ParamsBuilder {
-  constructor(readonly params: Partial<Params>) {
+/**
+ * Calculate a short hash of a value using FNV-1a
+ * @param value
+ */
+function hash(value: unknown): string {
+  const s = canonicalize(value);
+  let h = 0x811c9dc5;
+
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+
+  return (h >>> 0).toString(36);
+}
+
+const namers: Record<'counter' | 'hash', PlaceholderNamer> = {
+  counter: (key, value, attempt) => attempt ? appendSuffix(key, attempt) : key,
+  hash: (key, value, attempt) => appendSuffix(key, attempt ? `${hash(value)}_${attempt}` : hash(value)),
+};
+
+function addUniqueMapping(
+    mappings: Record<string, unknown>,
+    key: string,
+    value: unknown,
+    namer: PlaceholderNamer = namers.counter): string {
+  // A namer producing distinct placeholders for each attempt finds an unused one before exhausting the mappings
+  const maxAttempts = Object.keys(mappings).length + 1;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const uniqueKey = namer(key, value, attempt);
+
+    // Names must remain #-prefixed and values :-prefixed to be recognised as placeholders
+    if (typeof uniqueKey !== 'string' || uniqueKey.length < 2 || uniqueKey[0] !== key[0]) {
+      throw new Error(`Placeholder naming strategy failed to produce a valid placeholder for ${key}; ` +
+          `it must return a non-empty placeholder starting with ${key[0]}, not ${JSON.stringify(uniqueKey)}`);
+    }
+    if (!(uniqueKey in mappings) || isEqual(mappings[uniqueKey], value)) {
+      mappings[uniqueKey] = value;
+      return uniqueKey;
+    }
+  }
+
+  throw new Error(`Placeholder naming strategy failed to produce a unique placeholder for ${key} after ` +
+      `${maxAttempts} attempts; it must return a different placeholder for each attempt`);
+}
+
+export abstract class ExpressionBuilder<A> implements ParamsBuilder {
+  constructor(readonly params: Partial<Params>, readonly options: ExpressionBuilderOptions = {}) {
   }
 
   addOperand(operand: unknown, defaultType: 'name' | 'value', prefix = ''): string {
-    if (typeof operand === 'string') {
+    if (operand instanceof Expression) {
+      return operand.build(this, prefix);
+    } else if (operand instanceof Path) {
+      return this.addName(operand.path);
+    } else if (operand instanceof Size) {
+      return `size(${this.addName(operand.path)})`;
+    } else if (operand instanceof Literal) {
+      return this.addValue(operand.value, prefix);
+    } else if (typeof operand === 'string') {
       if (operand[0] === ':') {
         // Explicit literal, needed if value contains #
         return this.addValue(operand.substring(1), prefix);
@@ -60,8 +177,16 @@ export abstract class ExpressionBuilder<A extends Record<string, unknown>> imple
 
   protected addValue(value: unknown, prefix = ''): string {
     const values = this.params.ExpressionAttributeValues = this.params.ExpressionAttributeValues || {};
+    const {naming = 'counter', valueFormat = 'native'} = this.options;
+    const v = valueFormat === 'attributeValue' ? marshall(value) : value;
+    // Identical values share the same placeholder
+    const [existingKey] = Object.entries(values).find(([, existing]) => isEqual(existing, v)) ?? [];
+
+    if (existingKey !== undefined) {
+      return existingKey;
+    }
 
-    return addUniqueMapping(values, `:${prefix}`, value);
+    return addUniqueMapping(values, `:${prefix}`, v, typeof naming === 'function' ? naming : namers[naming]);
   }
 
   abstract build(attributes: A): string | undefined;
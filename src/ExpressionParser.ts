@@ -0,0 +1,657 @@
+import {Condition, ConditionSet} from './Condition';
+import {Params} from './ExpressionBuilder';
+import {Operand} from './Operand';
+import {SetValue, UpdateAction, UpdateAttributes} from './UpdateAction';
+
+/**
+ * An error thrown when an expression string cannot be parsed, or contains syntax which cannot be represented
+ * by this library.
+ */
+export class ExpressionParseError extends Error {
+  constructor(message: string, readonly expression: string, readonly position: number) {
+    super(`${message} at position ${position}: ${expression.substring(0, position)}>>>${expression.substring(position)}`);
+    this.name = 'ExpressionParseError';
+  }
+}
+
+type TokenType = 'name' | 'value' | 'identifier' | 'number' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const TOKEN_PATTERNS: Array<[TokenType, RegExp]> = [
+  ['name', /#[a-zA-Z0-9_]+/y],
+  ['value', /:[a-zA-Z0-9_]+/y],
+  ['identifier', /[a-zA-Z_][a-zA-Z0-9_]*/y],
+  ['number', /[0-9]+/y],
+  ['punctuation', /<>|<=|>=|[=<>()[\],.+-]/y],
+];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    if (/\s/.test(expression[position])) {
+      position++;
+      continue;
+    }
+
+    const match = TOKEN_PATTERNS
+        .map(([type, pattern]) => {
+          pattern.lastIndex = position;
+          return [type, pattern.exec(expression)] as const;
+        })
+        .find(([, m]) => m);
+
+    if (!match) {
+      throw new ExpressionParseError(`Unexpected character '${expression[position]}'`, expression, position);
+    }
+
+    const [type, [text]] = match as [TokenType, RegExpExecArray];
+
+    tokens.push({type, text, position});
+    position += text.length;
+  }
+  tokens.push({type: 'end', text: '', position});
+
+  return tokens;
+}
+
+type ParsedOperand =
+    {kind: 'path'; path: string; position: number} |
+    {kind: 'size'; path: string; position: number} |
+    {kind: 'value'; value: unknown; position: number};
+
+type ParsedSetOperand = ParsedOperand | {kind: 'function'; value: SetValue<any>; position: number};
+
+type ParsedCondition =
+    {kind: 'attribute'; key: string; condition: Condition<unknown>; position: number} |
+    {kind: 'set'; conditions: ConditionSet<unknown>; position: number};
+
+type Comparator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+const COMPARATORS: Record<Comparator, (value: unknown) => Condition<unknown>> = {
+  '=': Condition.eq,
+  '<>': Condition.neq,
+  '<': Condition.lt,
+  '<=': Condition.le,
+  '>': Condition.gt,
+  '>=': Condition.ge,
+};
+
+// The comparator to use if the operands of a comparison are swapped, e.g. :v < #a => #a > :v
+const REVERSED_COMPARATORS: Record<Comparator, Comparator> = {
+  '=': '=',
+  '<>': '<>',
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<=',
+};
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'BETWEEN', 'IN', 'SET', 'REMOVE', 'ADD', 'DELETE'];
+
+function isComparator(text: string): text is Comparator {
+  return text in COMPARATORS;
+}
+
+/**
+ * Escape a literal value so that it's not mistaken for an attribute path when built
+ * @param value
+ */
+function escapeValue(value: unknown): unknown {
+  return typeof value === 'string' && (value.startsWith(':') || value.includes('#')) ? `:${value}` : value;
+}
+
+/**
+ * Get the key to use for an attribute path in ConditionAttributes or UpdateAttributes
+ * @param path
+ */
+function pathKey(path: string): string {
+  return path.startsWith(':') || path.includes('#') ? Operand.get(path) : path;
+}
+
+class ExpressionParser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly expression: string, private readonly params: Partial<Params>) {
+    this.tokens = tokenize(expression);
+  }
+
+  parseCondition(): ConditionSet<unknown> {
+    const condition = this.parseOr();
+
+    this.expectEnd();
+
+    return this.toConditionSet(condition);
+  }
+
+  parseUpdate(): UpdateAttributes<unknown> {
+    const attributes: UpdateAttributes<unknown> = {};
+    const clauses = new Set<string>();
+
+    const addAttribute = (path: string, position: number, value: unknown) => {
+      const key = pathKey(path);
+
+      if (key in attributes) {
+        throw this.error(`Duplicate update of path '${path}'`, position);
+      }
+      attributes[key] = value;
+    };
+
+    do {
+      const token = this.next();
+      const clause = token.text.toUpperCase();
+
+      if (token.type !== 'identifier' || !['SET', 'REMOVE', 'ADD', 'DELETE'].includes(clause)) {
+        throw this.error(`Expected SET, REMOVE, ADD or DELETE but found '${token.text}'`, token.position);
+      }
+      if (clauses.has(clause)) {
+        throw this.error(`Duplicate ${clause} clause`, token.position);
+      }
+      clauses.add(clause);
+
+      do {
+        const {path, position} = this.parsePath();
+
+        switch (clause) {
+          case 'SET':
+            this.expect('=');
+            addAttribute(path, position, this.parseSetAction());
+            break;
+          case 'REMOVE':
+            addAttribute(path, position, UpdateAction.remove());
+            break;
+          case 'ADD':
+            addAttribute(path, position, UpdateAction.add(this.parseValue() as number));
+            break;
+          case 'DELETE':
+            addAttribute(path, position, UpdateAction.delete(this.parseValue() as Set<unknown>));
+            break;
+        }
+      } while (this.accept(','));
+    } while (this.peek().type !== 'end');
+
+    return attributes;
+  }
+
+  private parseOr(): ParsedCondition {
+    const {position} = this.peek();
+    const operands = [this.parseAnd()];
+
+    while (this.acceptKeyword('OR')) {
+      operands.push(this.parseAnd());
+    }
+
+    if (operands.length === 1) {
+      return operands[0];
+    }
+
+    const [first] = operands;
+
+    if (first.kind === 'attribute' && operands.every(c => c.kind === 'attribute' && c.key === first.key)) {
+      return {
+        kind: 'attribute',
+        key: first.key,
+        condition: Condition.or(...operands.map(c => (c as {condition: Condition<unknown>}).condition)),
+        position
+      };
+    }
+
+    return {kind: 'set', conditions: ConditionSet.or(...operands.map(c => this.toConditionSet(c))), position};
+  }
+
+  private parseAnd(): ParsedCondition {
+    const {position} = this.peek();
+    const operands = [this.parseNot()];
+
+    while (this.acceptKeyword('AND')) {
+      operands.push(this.parseNot());
+    }
+
+    if (operands.length === 1) {
+      return operands[0];
+    }
+
+    if (operands.every(c => c.kind === 'attribute')) {
+      const conditionsByKey = new Map<string, Array<Condition<unknown>>>();
+
+      for (const c of operands) {
+        const {key, condition} = c as {key: string; condition: Condition<unknown>};
+        conditionsByKey.set(key, [...conditionsByKey.get(key) ?? [], condition]);
+      }
+
+      if (conditionsByKey.size === 1) {
+        const [[key, conditions]] = conditionsByKey.entries();
+
+        return {kind: 'attribute', key, condition: Condition.and(...conditions), position};
+      }
+
+      return {
+        kind: 'set',
+        conditions: Object.fromEntries([...conditionsByKey.entries()]
+            .map(([key, conditions]) => [key, conditions.length === 1 ? conditions[0] : Condition.and(...conditions)])),
+        position
+      };
+    }
+
+    return {kind: 'set', conditions: ConditionSet.and(...operands.map(c => this.toConditionSet(c))), position};
+  }
+
+  private parseNot(): ParsedCondition {
+    const {position} = this.peek();
+
+    if (this.acceptKeyword('NOT')) {
+      const operand = this.parseNot();
+
+      if (operand.kind !== 'attribute') {
+        throw this.error('NOT is only supported for conditions on a single attribute', position);
+      }
+
+      return {kind: 'attribute', key: operand.key, condition: Condition.not(operand.condition), position};
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ParsedCondition {
+    const token = this.peek();
+
+    if (this.accept('(')) {
+      const condition = this.parseOr();
+
+      this.expect(')');
+
+      return condition;
+    }
+
+    if (token.type === 'identifier' && this.peek(1).text === '(' && token.text !== 'size') {
+      return this.parseFunction();
+    }
+
+    const left = this.parseOperand();
+
+    if (this.acceptKeyword('BETWEEN')) {
+      const minValue = this.parseOperand();
+
+      this.expectKeyword('AND');
+
+      const maxValue = this.parseOperand();
+
+      return this.attributeCondition(left, Condition.between(this.operandValue(minValue), this.operandValue(maxValue)));
+    }
+
+    if (this.acceptKeyword('IN')) {
+      const operands: ParsedOperand[] = [];
+
+      this.expect('(');
+      do {
+        operands.push(this.parseOperand());
+      } while (this.accept(','));
+      this.expect(')');
+
+      return this.attributeCondition(left, Condition.in(operands.map(o => this.operandValue(o))));
+    }
+
+    const operator = this.next();
+
+    if (!isComparator(operator.text)) {
+      throw this.error(`Expected a comparator, BETWEEN or IN but found '${operator.text}'`, operator.position);
+    }
+
+    const right = this.parseOperand();
+
+    if (left.kind === 'value') {
+      if (right.kind === 'value') {
+        throw this.error('Comparing two values is not supported', left.position);
+      }
+
+      return this.attributeCondition(right, COMPARATORS[REVERSED_COMPARATORS[operator.text]](this.operandValue(left)));
+    }
+
+    return this.attributeCondition(left, COMPARATORS[operator.text](this.operandValue(right)));
+  }
+
+  private parseFunction(): ParsedCondition {
+    const {text: func, position} = this.next();
+
+    this.expect('(');
+
+    const path = this.parsePath();
+    const args: ParsedOperand[] = [];
+
+    while (this.accept(',')) {
+      args.push(this.parseOperand());
+    }
+    this.expect(')');
+
+    const arity: Record<string, number> = {
+      attribute_exists: 0,
+      attribute_not_exists: 0,
+      attribute_type: 1,
+      begins_with: 1,
+      contains: 1,
+    };
+
+    if (!(func in arity)) {
+      throw this.error(`Unsupported function '${func}'`, position);
+    }
+    if (args.length !== arity[func]) {
+      throw this.error(`Function '${func}' expects ${arity[func] + 1} arguments`, position);
+    }
+
+    const [arg] = args.map(a => this.operandValue(a));
+    const operand: ParsedOperand = {kind: 'path', ...path};
+
+    switch (func) {
+      case 'attribute_exists':
+        return this.attributeCondition(operand, Condition.attributeExists());
+      case 'attribute_not_exists':
+        return this.attributeCondition(operand, Condition.attributeNotExists());
+      case 'attribute_type':
+        return this.attributeCondition(operand, Condition.attributeType(arg as any));
+      case 'begins_with':
+        return this.attributeCondition(operand, Condition.beginsWith(arg as string) as Condition<unknown>);
+      default:
+        return this.attributeCondition(operand, Condition.contains(arg as string) as Condition<unknown>);
+    }
+  }
+
+  private parseSetAction(): unknown {
+    const left = this.parseSetOperand();
+    const operator = this.peek();
+
+    if (this.accept('+') || this.accept('-')) {
+      const right = this.parseSetOperand();
+      const operands = [left, right].map(o => this.setOperandValue(o)) as [number, number];
+
+      return UpdateAction.set(operator.text === '+' ? SetValue.add(...operands) : SetValue.subtract(...operands));
+    }
+
+    switch (left.kind) {
+      case 'function':
+        return UpdateAction.set(left.value);
+      case 'path':
+        return Operand.get(left.path);
+      case 'size':
+        throw this.error('The size function is not supported in update expressions', left.position);
+      default:
+        return escapeValue(left.value);
+    }
+  }
+
+  private parseSetOperand(): ParsedSetOperand {
+    const token = this.peek();
+
+    if (token.type === 'identifier' && this.peek(1).text === '(' && token.text !== 'size') {
+      const {text: func, position} = this.next();
+
+      this.expect('(');
+
+      if (func === 'if_not_exists') {
+        const {path} = this.parsePath();
+
+        this.expect(',');
+
+        const defaultValue = this.parseSetOperand();
+
+        this.expect(')');
+
+        if (defaultValue.kind === 'function' || defaultValue.kind === 'size') {
+          throw this.error('Functions are not supported as if_not_exists default value', defaultValue.position);
+        }
+
+        return {kind: 'function', value: SetValue.ifNotExists(pathKey(path), this.operandValue(defaultValue)), position};
+      }
+
+      if (func === 'list_append') {
+        const list1 = this.parseSetOperand();
+
+        this.expect(',');
+
+        const list2 = this.parseSetOperand();
+
+        this.expect(')');
+
+        return {
+          kind: 'function',
+          value: SetValue.append(this.setOperandValue(list1) as unknown[], this.setOperandValue(list2) as unknown[]),
+          position
+        };
+      }
+
+      throw this.error(`Unsupported function '${func}'`, position);
+    }
+
+    return this.parseOperand();
+  }
+
+  private parseOperand(): ParsedOperand {
+    const token = this.peek();
+
+    if (token.type === 'value') {
+      return {kind: 'value', value: this.parseValue(), position: token.position};
+    }
+
+    if (token.type === 'identifier' && token.text === 'size' && this.peek(1).text === '(') {
+      this.next();
+      this.expect('(');
+
+      const {path} = this.parsePath();
+
+      this.expect(')');
+
+      return {kind: 'size', path, position: token.position};
+    }
+
+    return {kind: 'path', ...this.parsePath()};
+  }
+
+  private parseValue(): unknown {
+    const token = this.next();
+
+    if (token.type !== 'value') {
+      throw this.error(`Expected a value placeholder but found '${token.text}'`, token.position);
+    }
+
+    const values = this.params.ExpressionAttributeValues ?? {};
+
+    if (!(token.text in values)) {
+      throw this.error(`Undefined value placeholder '${token.text}'`, token.position);
+    }
+
+    return values[token.text];
+  }
+
+  private parsePath(): {path: string; position: number} {
+    const {position} = this.peek();
+    let path = this.parsePathElement();
+
+    for (;;) {
+      if (this.accept('.')) {
+        path += `.${this.parsePathElement()}`;
+      } else if (this.accept('[')) {
+        const index = this.next();
+
+        if (index.type !== 'number') {
+          throw this.error(`Expected a list index but found '${index.text}'`, index.position);
+        }
+        this.expect(']');
+        path += `[${index.text}]`;
+      } else {
+        return {path, position};
+      }
+    }
+  }
+
+  private parsePathElement(): string {
+    const token = this.next();
+    let name: string;
+
+    if (token.type === 'name') {
+      const names = this.params.ExpressionAttributeNames ?? {};
+
+      if (!(token.text in names)) {
+        throw this.error(`Undefined name placeholder '${token.text}'`, token.position);
+      }
+      name = names[token.text];
+    } else if (token.type === 'identifier' && !KEYWORDS.includes(token.text.toUpperCase())) {
+      name = token.text;
+    } else {
+      throw this.error(`Expected an attribute name but found '${token.text || 'end of expression'}'`, token.position);
+    }
+
+    if (/[.[\])]/.test(name)) {
+      throw this.error(`Attribute name '${name}' contains characters which are not supported`, token.position);
+    }
+
+    return name;
+  }
+
+  private attributeCondition(operand: ParsedOperand, condition: Condition<unknown>): ParsedCondition {
+    switch (operand.kind) {
+      case 'path':
+        return {kind: 'attribute', key: pathKey(operand.path), condition, position: operand.position};
+      case 'size':
+        return {kind: 'attribute', key: Operand.size(operand.path), condition, position: operand.position};
+      default:
+        throw this.error('Expected an attribute path', operand.position);
+    }
+  }
+
+  private operandValue(operand: ParsedOperand): unknown {
+    switch (operand.kind) {
+      case 'path':
+        return Operand.get(operand.path);
+      case 'size':
+        return Operand.size(operand.path);
+      default:
+        return escapeValue(operand.value);
+    }
+  }
+
+  private setOperandValue(operand: ParsedSetOperand): any {
+    switch (operand.kind) {
+      case 'function':
+        return operand.value;
+      case 'path':
+        return pathKey(operand.path);
+      case 'size':
+        throw this.error('The size function is not supported in update expressions', operand.position);
+      default:
+        // Strings are treated as paths by SetValue functions, so string values must always be escaped
+        return typeof operand.value === 'string' ? `:${operand.value}` : operand.value;
+    }
+  }
+
+  private toConditionSet(condition: ParsedCondition): ConditionSet<unknown> {
+    return condition.kind === 'attribute' ? {[condition.key]: condition.condition} : condition.conditions;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+
+    if (token.type !== 'end') {
+      this.index++;
+    }
+
+    return token;
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+
+    if (token.type === 'punctuation' && token.text === text) {
+      this.index++;
+      return true;
+    }
+
+    return false;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+
+    if (token.type === 'identifier' && token.text.toUpperCase() === keyword) {
+      this.index++;
+      return true;
+    }
+
+    return false;
+  }
+
+  private expect(text: string): void {
+    const token = this.peek();
+
+    if (!this.accept(text)) {
+      throw this.error(`Expected '${text}' but found '${token.text || 'end of expression'}'`, token.position);
+    }
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.peek();
+
+    if (!this.acceptKeyword(keyword)) {
+      throw this.error(`Expected ${keyword} but found '${token.text || 'end of expression'}'`, token.position);
+    }
+  }
+
+  private expectEnd(): void {
+    const token = this.peek();
+
+    if (token.type !== 'end') {
+      throw this.error(`Unexpected '${token.text}'`, token.position);
+    }
+  }
+
+  private error(message: string, position: number): ExpressionParseError {
+    return new ExpressionParseError(message, this.expression, position);
+  }
+}
+
+/**
+ * Parse a ConditionExpression, KeyConditionExpression or FilterExpression string into a ConditionSet which,
+ * when built, produces an equivalent expression.
+ * Example:
+ *
+ * parseConditionExpression('#a > :a AND size(#b) < :b', {
+ *   ExpressionAttributeNames: {'#a': 'a', '#b': 'b'},
+ *   ExpressionAttributeValues: {':a': 42, ':b': 5}
+ * })
+ *
+ * This returns a condition set like {a: Condition.gt(42), [Operand.size('b')]: Condition.lt(5)}
+ * @param expression Condition expression
+ * @param [params] ExpressionAttributeNames and ExpressionAttributeValues referenced by the expression
+ * @throws ExpressionParseError if the expression is invalid or not supported
+ */
+export function parseConditionExpression(expression: string, params: Partial<Params> = {}): ConditionSet<unknown> {
+  return new ExpressionParser(expression, params).parseCondition();
+}
+
+/**
+ * Parse an UpdateExpression string into UpdateAttributes which, when built, produce an equivalent expression.
+ * Example:
+ *
+ * parseUpdateExpression('SET #a = :a, #b = list_append(#b, :b) REMOVE #c', {
+ *   ExpressionAttributeNames: {'#a': 'a', '#b': 'b', '#c': 'c'},
+ *   ExpressionAttributeValues: {':a': 42, ':b': [1, 2]}
+ * })
+ *
+ * This returns update attributes like
+ * {a: 42, b: UpdateAction.set(SetValue.append('b', [1, 2])), c: UpdateAction.remove()}
+ * @param expression Update expression
+ * @param [params] ExpressionAttributeNames and ExpressionAttributeValues referenced by the expression
+ * @throws ExpressionParseError if the expression is invalid or not supported
+ */
+export function parseUpdateExpression(expression: string, params: Partial<Params> = {}): UpdateAttributes<unknown> {
+  return new ExpressionParser(expression, params).parseUpdate();
+}
@@ -0,0 +1,167 @@
+import {parseOperand, parsePath, PathElement} from './AttributePath';
+import {CompositeCondition} from './CompositeCondition';
+import {Condition, ConditionSet} from './Condition';
+import {UpdateAttributes} from './UpdateAction';
+
+// https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/ServiceQuotas.html#limits-expression-parameters
+const MAX_EXPRESSION_LENGTH = 4096;
+const MAX_IN_OPERANDS = 100;
+const MAX_OPERATORS = 300;
+const MAX_NESTING_DEPTH = 32;
+
+const OPERATOR_PATTERN = /(?<![#:\w])(?:AND|OR|NOT|BETWEEN|IN)(?!\w)|(?<![#:\w])[a-z_]+\(|<>|<=|>=|[=<>+-]/g;
+
+export type ExpressionRule = 'expressionLength' | 'inOperands' | 'operatorCount' | 'nestingDepth' | 'overlappingPaths';
+
+/**
+ * A violation of a DynamoDB expression limit
+ */
+export interface ExpressionViolation {
+  rule: ExpressionRule;
+  message: string;
+  /**
+   * The attribute path causing the violation, if the violation concerns a specific attribute
+   */
+  path?: string;
+}
+
+/**
+ * An error thrown when a built expression violates one or more DynamoDB expression limits
+ */
+export class ExpressionValidationError extends Error {
+  constructor(readonly violations: ExpressionViolation[]) {
+    super(`Expression violates DynamoDB limits: ${violations.map(v => v.message).join('; ')}`);
+    this.name = 'ExpressionValidationError';
+  }
+}
+
+/**
+ * An error thrown when update attributes contain overlapping paths, i.e., paths which are equal or where one path is
+ * a prefix of the other, such as 'a' and 'a.b' or 'c[1]' and '#c[01]', which DynamoDB rejects
+ */
+export class OverlappingPathsError extends ExpressionValidationError {
+  constructor(readonly conflicts: Array<[string, string]>) {
+    super(conflicts.map(([path, conflictingPath]) => ({
+      rule: 'overlappingPaths' as const,
+      message: `Paths '${path}' and '${conflictingPath}' overlap`,
+      path: conflictingPath
+    })));
+    this.name = 'OverlappingPathsError';
+  }
+}
+
+function keyPath(key: string): PathElement[] {
+  const parsed = parseOperand(key, 'name');
+
+  return 'path' in parsed ? parsePath(parsed.path) : [];
+}
+
+function validateExpression(expression: string): ExpressionViolation[] {
+  const violations: ExpressionViolation[] = [];
+  const length = Buffer.byteLength(expression);
+  const operators = expression.match(OPERATOR_PATTERN)?.length ?? 0;
+
+  if (length > MAX_EXPRESSION_LENGTH) {
+    violations.push({
+      rule: 'expressionLength',
+      message: `Expression length ${length} exceeds ${MAX_EXPRESSION_LENGTH} bytes`
+    });
+  }
+  if (operators > MAX_OPERATORS) {
+    violations.push({
+      rule: 'operatorCount',
+      message: `Expression contains ${operators} operators or functions, exceeding ${MAX_OPERATORS}`
+    });
+  }
+
+  return violations;
+}
+
+function validatePath(key: string): ExpressionViolation[] {
+  const depth = keyPath(key).length;
+
+  return depth > MAX_NESTING_DEPTH ? [{
+    rule: 'nestingDepth',
+    message: `Path '${key}' has ${depth} levels, exceeding ${MAX_NESTING_DEPTH}`,
+    path: key
+  }] : [];
+}
+
+function validateCondition(key: string, c: Condition<unknown>): ExpressionViolation[] {
+  const {operator, operands} = c;
+
+  if (operator === 'in') {
+    const [values] = operands as [unknown[]];
+
+    if (values.length > MAX_IN_OPERANDS) {
+      return [{
+        rule: 'inOperands',
+        message: `IN condition for '${key}' has ${values.length} operands, exceeding ${MAX_IN_OPERANDS}`,
+        path: key
+      }];
+    }
+  }
+
+  return operands
+      .filter((o): o is Condition<unknown> => o instanceof Condition)
+      .flatMap(o => validateCondition(key, o));
+}
+
+function validateConditionSet<T>(conditions: ConditionSet<T>): ExpressionViolation[] {
+  if (conditions instanceof CompositeCondition) {
+    return conditions.operands.flatMap(operand => validateConditionSet(operand));
+  }
+
+  return Object.entries(conditions)
+      .filter(([, value]) => value !== undefined)
+      .flatMap(([key, value]) => [...validatePath(key), ...validateCondition(key, Condition.from(value))]);
+}
+
+function isPrefix(a: PathElement[], b: PathElement[]): boolean {
+  return a.length <= b.length && a.every((element, i) => element === b[i]);
+}
+
+/**
+ * Validate a built condition expression against DynamoDB limits
+ * @param expression Built condition expression
+ * @param conditions The conditions the expression was built from
+ * @return A list of violations, which is empty if the expression is valid
+ */
+export function validateConditionExpression<T>(expression: string, conditions: ConditionSet<T>): ExpressionViolation[] {
+  return [...validateExpression(expression), ...validateConditionSet(conditions)];
+}
+
+/**
+ * Validate a built update expression against DynamoDB limits
+ * @param expression Built update expression
+ * @param attributes The update attributes the expression was built from
+ * @return A list of violations, which is empty if the expression is valid
+ */
+export function validateUpdateExpression<T>(expression: string, attributes: UpdateAttributes<T>): ExpressionViolation[] {
+  const keys = Object.keys(attributes).filter(key => attributes[key] !== undefined);
+  const overlapping = findOverlappingPaths(keys);
+
+  return [
+    ...validateExpression(expression),
+    ...keys.flatMap(validatePath),
+    ...(overlapping.length ? new OverlappingPathsError(overlapping).violations : [])
+  ];
+}
+
+/**
+ * Find pairs of overlapping paths, i.e., paths which are equal after normalisation or where one path is a prefix of
+ * the other
+ * @param keys Update attribute keys
+ * @return A list of overlapping pairs of keys, which is empty if no paths overlap
+ */
+export function findOverlappingPaths(keys: string[]): Array<[string, string]> {
+  const paths = keys.map(keyPath);
+
+  return keys.flatMap((key, i) => keys.slice(i + 1)
+      .filter((otherKey, j) => {
+        const [a, b] = [paths[i], paths[i + j + 1]];
+
+        return a.length && b.length && (isPrefix(a, b) || isPrefix(b, a));
+      })
+      .map((otherKey): [string, string] => [key, otherKey]));
+}
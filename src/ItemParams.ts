@@ -0,0 +1,122 @@
+import {formatItem} from './AttributeValue';
+import {buildConditionParams, Condition, ConditionParams, ConditionSet} from './Condition';
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+import {Key} from './Types';
+
+/**
+ * Write mode of a put or delete operation;
+ * createOnly requires the item to not exist, replaceOnly requires the item to exist and none has no requirement.
+ */
+export type WriteMode = 'createOnly' | 'replaceOnly' | 'none';
+
+export type PutParams<T> = Partial<ConditionParams> & {TableName: string; Item: T};
+
+export type DeleteParams = Partial<ConditionParams> & {TableName: string; Key: Key};
+
+/**
+ * Combine the given conditions with the conditions of a write mode
+ * @param conditions
+ * @param mode
+ * @param keyAttributes
+ */
+function addModeConditions<T>(
+    conditions: ConditionSet<T> | undefined,
+    mode: WriteMode,
+    keyAttributes: string[]
+): ConditionSet<T> | undefined {
+  if (mode === 'none') {
+    return conditions;
+  }
+
+  if (!keyAttributes.length) {
+    throw new Error(`Cannot use write mode ${mode} without key attributes`);
+  }
+
+  const modeConditions = Object.fromEntries(keyAttributes.map(name =>
+      [name, mode === 'createOnly' ? Condition.attributeNotExists() : Condition.attributeExists()])) as ConditionSet<T>;
+
+  return conditions ? ConditionSet.and(conditions, modeConditions) : modeConditions;
+}
+
+/**
+ * Merge a ConditionExpression and associated ExpressionAttributeNames/Values built from the given conditions into
+ * the given params, or return the params as-is if there are no conditions
+ * @param params Params such as TableName, Key etc.
+ * @param conditions Optional conditions
+ * @param options Options such as the naming strategy for value placeholders
+ */
+export function withConditions<T, P>(
+    params: P,
+    conditions: ConditionSet<T> | undefined,
+    options: ExpressionBuilderOptions | undefined
+): P & Partial<ConditionParams> {
+  return conditions ?
+      buildConditionParams({conditions, params: params as unknown as Record<string, unknown>, options}) as P & ConditionParams :
+      params;
+}
+
+/**
+ * Build params to be used for a put() call to the DynamoDB client.
+ * Example:
+ *
+ * await ddb.put(buildPutParams({tableName: 'users', item: {id: '1', name: 'foo'}, keyAttributes: ['id'], mode: 'createOnly'}));
+ * // ConditionExpression: 'attribute_not_exists(#id)'
+ * @param tableName Table name
+ * @param item Item to put
+ * @param [keyAttributes] Names of the key attributes of the item, required unless mode is none
+ * @param [mode] Write mode; createOnly adds an attribute_not_exists condition and replaceOnly adds an
+ *               attribute_exists condition on each key attribute. None by default.
+ * @param [conditions] Optional conditions, which are combined with the conditions of the write mode
+ * @param [params] Optional other params such as ReturnValues, additional ExpressionAttributeNames etc.
+ *                 This object will be merged with the produced TableName, Item, ConditionExpression and associated
+ *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders. With the attributeValue value format,
+ *                  the item is converted into AttributeValues as well.
+ */
+export function buildPutParams<T, P extends Record<string, unknown>>(
+    {tableName, item, keyAttributes = [], mode = 'none', conditions, params = {} as P, options}: {
+      tableName: string;
+      item: T;
+      keyAttributes?: Array<keyof T & string>;
+      mode?: WriteMode;
+      conditions?: ConditionSet<T>;
+      params?: P;
+      options?: ExpressionBuilderOptions;
+    }
+): PutParams<T> & P {
+  Object.assign(params, {TableName: tableName, Item: formatItem(item, options)});
+
+  return withConditions(params, addModeConditions(conditions, mode, keyAttributes), options) as PutParams<T> & P;
+}
+
+/**
+ * Build params to be used for a delete() call to the DynamoDB client.
+ * Example:
+ *
+ * await ddb.delete(buildDeleteParams({tableName: 'users', key: {id: '1'}, mode: 'replaceOnly'}));
+ * // ConditionExpression: 'attribute_exists(#id)'
+ * @param tableName Table name
+ * @param key Primary key of the item to delete
+ * @param [mode] Write mode; createOnly adds an attribute_not_exists condition and replaceOnly adds an
+ *               attribute_exists condition on each key attribute. None by default.
+ * @param [conditions] Optional conditions, which are combined with the conditions of the write mode
+ * @param [params] Optional other params such as ReturnValues, additional ExpressionAttributeNames etc.
+ *                 This object will be merged with the produced TableName, Key, ConditionExpression and associated
+ *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders. With the attributeValue value format,
+ *                  the key is converted into AttributeValues as well.
+ */
+export function buildDeleteParams<T, P extends Record<string, unknown>>(
+    {tableName, key, mode = 'none', conditions, params = {} as P, options}: {
+      tableName: string;
+      key: Key;
+      mode?: WriteMode;
+      conditions?: ConditionSet<T>;
+      params?: P;
+      options?: ExpressionBuilderOptions;
+    }
+): DeleteParams & P {
+  Object.assign(params, {TableName: tableName, Key: formatItem(key, options)});
+
+  return withConditions(params, addModeConditions(conditions, mode, Object.keys(key)), options) as DeleteParams & P;
+}
@@ -0,0 +1,90 @@
+import {parseOperand} from './AttributePath';
+import {CompositeCondition} from './CompositeCondition';
+import {Condition, ConditionSet, Operator} from './Condition';
+import {Expression} from './Expression';
+
+// Prevent inferring a type parameter from a specific argument
+type NoInfer<T> = [T][T extends any ? 0 : never];
+
+/**
+ * A value of a key attribute; key attributes must be strings, numbers or binary values
+ */
+export type KeyValue = string | number | Uint8Array;
+
+/**
+ * The key schema of a table or index
+ */
+export interface KeySchema<PK extends string = string, SK extends string = never> {
+  partitionKey: PK;
+  sortKey?: SK;
+}
+
+/**
+ * Key conditions for a table or index with the given key schema, i.e., a condition for the partition key and
+ * optionally for the sort key.
+ */
+export type KeyConditionAttributes<PK extends string, SK extends string> =
+    {[P in NoInfer<PK>]: KeyConditionValue} &
+    {[P in NoInfer<SK>]?: KeyConditionValue};
+
+type KeyConditionValue = KeyValue | Condition<string> | Condition<number> | Condition<Uint8Array>;
+
+/**
+ * The operators which may be used in key conditions on sort keys
+ */
+export const SORT_KEY_OPERATORS: Operator[] = ['=', '<', '<=', '>', '>=', 'between', 'begins_with'];
+
+function getEntries<T>(conditions: ConditionSet<T>): Array<[string, unknown]> {
+  if (conditions instanceof CompositeCondition) {
+    if (conditions.operator !== 'AND' && conditions.operands.length > 1) {
+      throw new Error(`Key conditions may not use ${conditions.operator}`);
+    }
+
+    return conditions.operands.flatMap(operand => getEntries(operand));
+  }
+
+  return Object.entries(conditions).filter(([, value]) => value !== undefined);
+}
+
+/**
+ * Validate that the given conditions are valid key conditions for the given key schema, i.e., that there is
+ * an equality condition for the partition key and optionally a condition for the sort key using one of the operators
+ * supported for sort keys, and no other conditions.
+ * @param conditions Key conditions
+ * @param keySchema Key schema of the queried table or index
+ * @throws Error if the conditions are not valid key conditions
+ */
+export function validateKeyConditions<T>(conditions: ConditionSet<T>, keySchema: KeySchema<string, string>): void {
+  const {partitionKey, sortKey} = keySchema;
+  const keys = new Set<string>();
+
+  for (const [key, value] of getEntries(conditions)) {
+    const parsed = parseOperand(key, 'name');
+    const path = 'path' in parsed && !parsed.size ? parsed.path : undefined;
+    const {operator, operands} = Condition.from(value);
+
+    if (path === undefined || (path !== partitionKey && path !== sortKey)) {
+      throw new Error(`Key conditions may only refer to key attributes ${[partitionKey, sortKey].filter(k => k)
+          .join(', ')}, not '${key}'`);
+    }
+    if (keys.has(path)) {
+      throw new Error(`Key conditions may only contain one condition for '${path}'`);
+    }
+    keys.add(path);
+
+    if (path === partitionKey ? operator !== '=' : !SORT_KEY_OPERATORS.includes(operator)) {
+      throw new Error(`Key condition for ${path === partitionKey ? 'partition' : 'sort'} key '${path}' may not use ${
+          operator}`);
+    }
+    if (operands.some(operand => operand instanceof Expression)) {
+      throw new Error(`Key condition for '${path}' may not use expressions`);
+    }
+    if (operands.some(operand => 'path' in parseOperand(operand, 'value'))) {
+      throw new Error(`Key condition for '${path}' may not refer to other attributes`);
+    }
+  }
+
+  if (!keys.has(partitionKey)) {
+    throw new Error(`Key conditions must contain a condition for partition key '${partitionKey}'`);
+  }
+}
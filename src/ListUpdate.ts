@@ -0,0 +1,119 @@
+import {Condition, ConditionAttributes} from './Condition';
+import {isEqual} from './ExpressionBuilder';
+import {Operand} from './Operand';
+import {SetValue, UpdateAction, UpdateAttributes} from './UpdateAction';
+
+/**
+ * Update attributes together with the conditions guarding them against concurrent modifications
+ */
+export interface GuardedUpdate<T> {
+  attributes: UpdateAttributes<T>;
+  conditions?: ConditionAttributes<T>;
+}
+
+function elementPath(path: string, index: number): string {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid index ${index} for list ${path}`);
+  }
+
+  return `${path}[${index}]`;
+}
+
+export namespace ListUpdate {
+  /**
+   * Set the list element at the given index, requiring the element to exist, since DynamoDB would otherwise append
+   * the value to the end of the list. If an expected value is given, the element is required to equal it.
+   * Example:
+   *
+   * ListUpdate.setElement('tags', 2, 'foo');
+   * // SET #tags[2] = :val_set, ConditionExpression: 'attribute_exists(#tags[2])'
+   * @param path Path of the list
+   * @param index Index of the element
+   * @param value New value of the element
+   * @param [expectedValue] Expected current value of the element
+   */
+  export function setElement<T>(path: string, index: number, value: T, expectedValue?: T): GuardedUpdate<unknown> {
+    const key = elementPath(path, index);
+
+    return {
+      attributes: {[key]: UpdateAction.set(Operand.value(value))},
+      conditions: {[key]: guard(expectedValue)},
+    };
+  }
+
+  /**
+   * Remove the list element at the given index, shifting subsequent elements. If an expected value is given, the
+   * element is required to equal it, otherwise it's only required to exist.
+   * Example:
+   *
+   * ListUpdate.removeElement('tags', 2, 'foo');
+   * // REMOVE #tags[2], ConditionExpression: '#tags[2] = :cond_'
+   * @param path Path of the list
+   * @param index Index of the element
+   * @param [expectedValue] Expected current value of the element
+   */
+  export function removeElement<T>(path: string, index: number, expectedValue?: T): GuardedUpdate<unknown> {
+    const key = elementPath(path, index);
+
+    return {
+      attributes: {[key]: UpdateAction.remove()},
+      conditions: {[key]: guard(expectedValue)},
+    };
+  }
+
+  /**
+   * Remove all elements equal to the given value from a list. Since DynamoDB can only remove list elements by index,
+   * the indexes are looked up in the current list, and each removed element is required to still equal the value,
+   * so that the update fails if the list was modified concurrently.
+   * Example:
+   *
+   * ListUpdate.removeValue('tags', ['a', 'b', 'a'], 'a');
+   * // REMOVE #tags[0], #tags[2], ConditionExpression: '#tags[0] = :cond_ AND #tags[2] = :cond_'
+   * @param path Path of the list
+   * @param list Current value of the list
+   * @param value Value to remove
+   * @throws Error if the list doesn't contain the value
+   */
+  export function removeValue<T>(path: string, list: readonly T[], value: T): GuardedUpdate<unknown> {
+    const indexes = list.flatMap((element, i) => isEqual(element, value) ? [i] : []);
+
+    if (!indexes.length) {
+      throw new Error(`List ${path} doesn't contain the value ${JSON.stringify(value)}`);
+    }
+
+    return {
+      attributes: Object.fromEntries(indexes.map(i => [elementPath(path, i), UpdateAction.remove()])),
+      conditions: Object.fromEntries(indexes.map(i => [elementPath(path, i), guard(value)])),
+    };
+  }
+
+  /**
+   * Prepend elements to a list, creating the list if it doesn't exist
+   * Example:
+   *
+   * ListUpdate.prepend('tags', ['a']);
+   * // SET #tags = list_append(:val_append0, if_not_exists(#tags, :val_ifnotexists))
+   * @param path Path of the list
+   * @param elements Elements to prepend
+   */
+  export function prepend<T>(path: string, elements: T[]): GuardedUpdate<unknown> {
+    return {attributes: {[path]: UpdateAction.set(SetValue.prependTo(path, elements))}};
+  }
+
+  /**
+   * Append elements to a list, creating the list if it doesn't exist
+   * Example:
+   *
+   * ListUpdate.append('tags', ['a']);
+   * // SET #tags = list_append(if_not_exists(#tags, :val_ifnotexists), :val_append1)
+   * @param path Path of the list
+   * @param elements Elements to append
+   */
+  export function append<T>(path: string, elements: T[]): GuardedUpdate<unknown> {
+    return {attributes: {[path]: UpdateAction.set(SetValue.appendTo(path, elements))}};
+  }
+
+  function guard(expectedValue: unknown): Condition<unknown> {
+    return expectedValue === undefined ? Condition.attributeExists() : Condition.eq(Operand.value(expectedValue));
+  }
+}
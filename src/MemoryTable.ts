@@ -0,0 +1,531 @@
+import {cloneValue, parsePath, PathElement} from './AttributePath';
+import {ConditionSet} from './Condition';
+import {canonicalize, isEqual, Params} from './ExpressionBuilder';
+import {parseConditionExpression, parseUpdateExpression} from './ExpressionParser';
+import {KeySchema, validateKeyConditions} from './KeySchema';
+import {Page} from './Pagination';
+import {IndexDefinition, TableDefinition} from './Table';
+import {TransactWriteItem, TransactWriteParams} from './Transaction';
+import {Key} from './Types';
+import {applyUpdate, UpdateAttributes} from './UpdateAction';
+
+// https://docs.aws.amazon.com/amazondynamodb/latest/APIReference/API_TransactWriteItems.html
+const MAX_TRANSACT_ITEMS = 100;
+
+type Item = Record<string, unknown>;
+
+type ExpressionParams = Partial<Params> & {
+  TableName: string;
+  ConditionExpression?: string;
+  ReturnValues?: string;
+  ReturnValuesOnConditionCheckFailure?: string;
+};
+
+type GetItemParams = Partial<Params> & {
+  TableName: string;
+  Key: Key;
+  ProjectionExpression?: string;
+};
+
+type PutItemParams = ExpressionParams & {Item: Item};
+
+type UpdateItemParams = ExpressionParams & {Key: Key; UpdateExpression: string};
+
+type DeleteItemParams = ExpressionParams & {Key: Key};
+
+type ScanItemsParams = Partial<Params> & {
+  TableName: string;
+  IndexName?: string;
+  FilterExpression?: string;
+  ProjectionExpression?: string;
+  Limit?: number;
+  ExclusiveStartKey?: Key;
+  Select?: string;
+  Segment?: number;
+  TotalSegments?: number;
+};
+
+type QueryItemsParams = ScanItemsParams & {
+  KeyConditionExpression: string;
+  ScanIndexForward?: boolean;
+};
+
+export interface CancellationReason {
+  Code: string;
+  Message?: string;
+  Item?: Item;
+}
+
+/**
+ * An error thrown by MemoryTable, shaped like the errors of the DynamoDB client, i.e., with the error code as both
+ * name and code
+ */
+export class MemoryTableError extends Error {
+  readonly code: string;
+
+  constructor(name: string, message: string) {
+    super(message);
+    this.name = name;
+    this.code = name;
+  }
+}
+
+export class ConditionalCheckFailedException extends MemoryTableError {
+  constructor(readonly Item?: Item) {
+    super('ConditionalCheckFailedException', 'The conditional request failed');
+  }
+}
+
+export class TransactionCanceledException extends MemoryTableError {
+  constructor(readonly CancellationReasons: CancellationReason[]) {
+    super('TransactionCanceledException', `Transaction cancelled, please refer cancellation reasons for specific ` +
+        `reasons [${CancellationReasons.map(reason => reason.Code).join(', ')}]`);
+  }
+}
+
+/**
+ * A pending write of a single item; the item is deleted if newItem is undefined
+ */
+interface Write {
+  id: string;
+  oldItem?: Item;
+  newItem?: Item;
+}
+
+function validationError(message: string): MemoryTableError {
+  return new MemoryTableError('ValidationException', message);
+}
+
+/**
+ * Call a function, converting any error other than a MemoryTableError into a ValidationException
+ * @param f
+ */
+function validate<R>(f: () => R): R {
+  try {
+    return f();
+  } catch (err) {
+    throw err instanceof MemoryTableError ? err : validationError(err.message);
+  }
+}
+
+function isKeyValue(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || value instanceof Uint8Array;
+}
+
+function getKeyAttributes(keySchema: KeySchema<string, string>): string[] {
+  return keySchema.sortKey ? [keySchema.partitionKey, keySchema.sortKey] : [keySchema.partitionKey];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    const i = a.findIndex((byte, j) => byte !== b[j]);
+
+    return i < 0 || i >= b.length ? a.length - b.length : a[i] - b[i];
+  }
+
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function evaluateCondition(expression: string | undefined, params: Partial<Params>, item: Item | undefined): boolean {
+  return !expression || validate(() => ConditionSet.evaluate(parseConditionExpression(expression, params), item ?? {}));
+}
+
+/**
+ * Set a value at the given path elements, creating maps and lists as needed
+ */
+function setElements(target: any, elements: PathElement[], value: unknown): void {
+  const [element, ...rest] = elements;
+
+  if (!rest.length) {
+    target[element] = value;
+    return;
+  }
+
+  target[element] = target[element] ?? (typeof rest[0] === 'number' ? [] : {});
+  setElements(target[element], rest, value);
+}
+
+/**
+ * Remove holes from lists created by projecting list elements
+ */
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter(() => true).map(compact);
+  }
+  if (typeof value === 'object' && value !== null && (value as any).constructor === Object) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, compact(v)]));
+  }
+
+  return value;
+}
+
+function project(item: Item, expression: string | undefined, names: Record<string, string> = {}): Item {
+  if (!expression) {
+    return item;
+  }
+
+  const projected: Item = {};
+
+  for (const path of expression.split(',')) {
+    const elements = validate(() => parsePath(path.trim()))
+        .map(element => typeof element === 'string' && element.startsWith('#') ? names[element] ?? element : element);
+    const value = elements.reduce((v: any, element) => v?.[element], item);
+
+    if (value !== undefined) {
+      setElements(projected, elements, value);
+    }
+  }
+
+  return compact(projected) as Item;
+}
+
+/**
+ * An in-memory table emulating a DynamoDB table accessed through a document client, for use in tests. Params are
+ * given like to the document client, e.g. as built by buildUpdateParams and buildConditionParams, and condition,
+ * filter and update expressions are evaluated using the expression parser. Values must be native values, i.e., the
+ * attributeValue format is not supported. Failed conditions throw errors shaped like those of the DynamoDB client,
+ * such as ConditionalCheckFailedException.
+ * Example:
+ *
+ * const table = new MemoryTable({tableName: 'items', keySchema: {partitionKey: 'id'}});
+ *
+ * await table.put({TableName: 'items', Item: {id: '1', count: 1}});
+ * await table.update(buildUpdateParams({
+ *   attributes: {count: UpdateAction.add(1)},
+ *   params: {TableName: 'items', Key: {id: '1'}}
+ * }));
+ * await table.get({TableName: 'items', Key: {id: '1'}}); // {Item: {id: '1', count: 2}}
+ */
+export class MemoryTable<T = Item> {
+  private readonly items = new Map<string, Item>();
+
+  constructor(readonly definition: TableDefinition) {
+  }
+
+  async get(params: Record<string, any>): Promise<{Item?: T}> {
+    const {TableName, Key, ProjectionExpression, ExpressionAttributeNames} = params as GetItemParams;
+
+    this.validateTableName(TableName);
+
+    const item = this.items.get(this.getItemId(Key));
+
+    return item ? {Item: cloneValue(project(item, ProjectionExpression, ExpressionAttributeNames)) as T} : {};
+  }
+
+  async put(params: Record<string, any>): Promise<{Attributes?: T}> {
+    return this.write(this.preparePut(params as PutItemParams), params, ['NONE', 'ALL_OLD']);
+  }
+
+  async update(params: Record<string, any>): Promise<{Attributes?: T}> {
+    return this.write(this.prepareUpdate(params as UpdateItemParams), params, ['NONE', 'ALL_OLD', 'ALL_NEW']);
+  }
+
+  async delete(params: Record<string, any>): Promise<{Attributes?: T}> {
+    return this.write(this.prepareDelete(params as DeleteItemParams), params, ['NONE', 'ALL_OLD']);
+  }
+
+  /**
+   * Query the table or an index, returning items sorted by sort key
+   * @param params
+   */
+  async query(queryParams: Record<string, any>): Promise<Page<T>> {
+    const params = queryParams as QueryItemsParams;
+    const {KeyConditionExpression, ScanIndexForward = true} = params;
+    const index = this.getIndex(params);
+    const conditions = validate(() => parseConditionExpression(KeyConditionExpression, params));
+
+    validate(() => validateKeyConditions(conditions, index?.keySchema ?? this.definition.keySchema));
+
+    const items = this.getSortedItems(index)
+        .filter(item => validate(() => ConditionSet.evaluate(conditions, item)));
+
+    return this.paginate(ScanIndexForward ? items : items.reverse(), params, index, ScanIndexForward);
+  }
+
+  /**
+   * Scan the table or an index, returning items sorted by partition key and sort key
+   * @param params
+   */
+  async scan(scanParams: Record<string, any>): Promise<Page<T>> {
+    const params = scanParams as ScanItemsParams;
+    const {Segment, TotalSegments} = params;
+    const index = this.getIndex(params);
+    let items = this.getSortedItems(index);
+
+    if (TotalSegments !== undefined) {
+      if (Segment === undefined || Segment < 0 || Segment >= TotalSegments) {
+        throw validationError(`Invalid Segment ${Segment} for TotalSegments ${TotalSegments}`);
+      }
+
+      // Assign partitions to segments in order, so that items in the same partition are in the same segment
+      const partitionKey = (index ?? this.definition).keySchema.partitionKey;
+      const partitions = [...new Set(items.map(item => canonicalize(item[partitionKey])))];
+
+      items = items.filter(item => partitions.indexOf(canonicalize(item[partitionKey])) % TotalSegments === Segment);
+    }
+
+    return this.paginate(items, params, index);
+  }
+
+  /**
+   * Perform a transaction, as built by buildTransactWriteParams. If any condition fails, no items are written and a
+   * TransactionCanceledException listing the reason for each operation is thrown.
+   * @param params
+   */
+  async transactWrite({TransactItems}: TransactWriteParams): Promise<Record<string, never>> {
+    if (!TransactItems.length || TransactItems.length > MAX_TRANSACT_ITEMS) {
+      throw validationError(`Transactions must contain between 1 and ${MAX_TRANSACT_ITEMS} items`);
+    }
+
+    const ids = TransactItems.map(transactItem => this.getTransactItemId(transactItem));
+
+    if (new Set(ids).size < ids.length) {
+      throw validationError('Transaction request cannot include multiple operations on one item');
+    }
+
+    const writes: Write[] = [];
+    const reasons: CancellationReason[] = TransactItems.map(transactItem => {
+      try {
+        writes.push(this.prepareTransactWriteItem(transactItem));
+        return {Code: 'None'};
+      } catch (err) {
+        if (err instanceof ConditionalCheckFailedException) {
+          return {Code: 'ConditionalCheckFailed', Message: err.message, ...(err.Item && {Item: err.Item})};
+        }
+        if (err instanceof MemoryTableError && err.name === 'ValidationException') {
+          return {Code: 'ValidationError', Message: err.message};
+        }
+        throw err;
+      }
+    });
+
+    if (reasons.some(reason => reason.Code !== 'None')) {
+      throw new TransactionCanceledException(reasons);
+    }
+
+    writes.forEach(write => this.commit(write));
+
+    return {};
+  }
+
+  private getTransactItemId(transactItem: TransactWriteItem): string {
+    const {Key} = 'Put' in transactItem ?
+        {Key: this.getPutKey(transactItem.Put.Item as Item)} :
+        Object.values(transactItem)[0];
+
+    return this.getItemId(Key);
+  }
+
+  private prepareTransactWriteItem(transactItem: TransactWriteItem): Write {
+    if ('Put' in transactItem) {
+      return this.preparePut(transactItem.Put as PutItemParams);
+    }
+    if ('Update' in transactItem) {
+      return this.prepareUpdate(transactItem.Update);
+    }
+    if ('Delete' in transactItem) {
+      return this.prepareDelete(transactItem.Delete);
+    }
+
+    const {Key} = transactItem.ConditionCheck;
+    const id = this.getItemId(Key);
+    const item = this.items.get(id);
+
+    this.check(item, transactItem.ConditionCheck);
+
+    return {id, oldItem: item, newItem: item};
+  }
+
+  private preparePut(params: PutItemParams): Write {
+    const {Item} = params;
+    const id = this.getItemId(this.getPutKey(Item));
+    const oldItem = this.items.get(id);
+
+    this.check(oldItem, params);
+
+    return {id, oldItem, newItem: cloneValue(Item)};
+  }
+
+  private prepareUpdate(params: UpdateItemParams): Write {
+    const {Key, UpdateExpression} = params;
+    const id = this.getItemId(Key);
+    const oldItem = this.items.get(id);
+
+    this.check(oldItem, params);
+
+    const newItem = validate(() =>
+        applyUpdate<Item>(oldItem ?? Key, parseUpdateExpression(UpdateExpression, params) as UpdateAttributes<Item>));
+
+    for (const name of Object.keys(Key)) {
+      if (!isEqual(newItem[name], Key[name])) {
+        throw validationError(`Cannot update attribute ${name}. This attribute is part of the key`);
+      }
+    }
+
+    return {id, oldItem, newItem};
+  }
+
+  private getPutKey(item: Item): Key {
+    return Object.fromEntries(getKeyAttributes(this.definition.keySchema).map(name => [name, item[name]]));
+  }
+
+  private prepareDelete(params: DeleteItemParams): Write {
+    const id = this.getItemId(params.Key);
+    const oldItem = this.items.get(id);
+
+    this.check(oldItem, params);
+
+    return {id, oldItem};
+  }
+
+  private check(item: Item | undefined, params: ExpressionParams): void {
+    const {TableName, ConditionExpression, ReturnValuesOnConditionCheckFailure} = params;
+
+    this.validateTableName(TableName);
+
+    if (!evaluateCondition(ConditionExpression, params, item)) {
+      throw new ConditionalCheckFailedException(ReturnValuesOnConditionCheckFailure === 'ALL_OLD' && item ?
+          cloneValue(item) :
+          undefined);
+    }
+  }
+
+  private commit({id, newItem}: Write): void {
+    if (newItem) {
+      this.items.set(id, newItem);
+    } else {
+      this.items.delete(id);
+    }
+  }
+
+  private write(write: Write, {ReturnValues = 'NONE'}: {ReturnValues?: string}, supported: string[]): {Attributes?: T} {
+    if (!supported.includes(ReturnValues)) {
+      throw validationError(`Unsupported ReturnValues: ${ReturnValues}`);
+    }
+
+    this.commit(write);
+
+    const attributes = ReturnValues === 'ALL_OLD' ? write.oldItem : ReturnValues === 'ALL_NEW' ? write.newItem : undefined;
+
+    return attributes ? {Attributes: cloneValue(attributes) as T} : {};
+  }
+
+  private validateTableName(tableName: string): void {
+    if (tableName !== this.definition.tableName) {
+      throw new MemoryTableError('ResourceNotFoundException', `Requested resource not found: Table: ${tableName} not found`);
+    }
+  }
+
+  private getItemId(key: Key): string {
+    const names = getKeyAttributes(this.definition.keySchema);
+
+    if (!key || Object.keys(key).length !== names.length || !names.every(name => isKeyValue(key[name]))) {
+      throw validationError('The provided key element does not match the schema');
+    }
+
+    return canonicalize(Object.fromEntries(names.map(name => [name, key[name]])));
+  }
+
+  private getIndex({TableName, IndexName}: ScanItemsParams): IndexDefinition | undefined {
+    this.validateTableName(TableName);
+
+    if (IndexName === undefined) {
+      return undefined;
+    }
+
+    const index = this.definition.indexes?.find(({name}) => name === IndexName);
+
+    if (!index) {
+      throw validationError(`The table does not have the specified index: ${IndexName}`);
+    }
+
+    return index;
+  }
+
+  /**
+   * The attributes by which items are ordered, i.e., the key attributes of the index, if any, and of the table
+   */
+  private getOrderAttributes(index?: IndexDefinition): string[] {
+    const names = [
+      ...index ? getKeyAttributes(index.keySchema) : [],
+      ...getKeyAttributes(this.definition.keySchema)
+    ];
+
+    return [...new Set(names)];
+  }
+
+  private compareItems(a: Item, b: Item, index?: IndexDefinition): number {
+    for (const name of this.getOrderAttributes(index)) {
+      const result = compareValues(a[name], b[name]);
+
+      if (result) {
+        return result;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Get all items of the table or index, projected into the index and sorted by key
+   * @param index
+   */
+  private getSortedItems(index?: IndexDefinition): Item[] {
+    const items = [...this.items.values()]
+        // Indexes are sparse, i.e., only contain items with the index key attributes
+        .filter(item => !index || getKeyAttributes(index.keySchema).every(name => isKeyValue(item[name])))
+        .sort((a, b) => this.compareItems(a, b, index));
+
+    if (!index?.projection || index.projection === 'ALL') {
+      return items;
+    }
+
+    const projected = [
+      ...this.getOrderAttributes(index),
+      ...index.projection === 'KEYS_ONLY' ? [] : index.projection
+    ];
+
+    return items.map(item => Object.fromEntries(projected
+        .filter(name => item[name] !== undefined)
+        .map(name => [name, item[name]])));
+  }
+
+  /**
+   * Return a page of the given items, starting after ExclusiveStartKey and evaluating at most Limit items
+   * @param items Items in the order in which they are evaluated
+   * @param params
+   * @param [index]
+   * @param [forward] Whether the items are sorted in ascending order
+   */
+  private paginate(items: Item[], params: ScanItemsParams, index?: IndexDefinition, forward = true): Page<T> {
+    const {ExclusiveStartKey, Limit, FilterExpression, ProjectionExpression, ExpressionAttributeNames, Select} = params;
+
+    if (Limit !== undefined && (!Number.isInteger(Limit) || Limit < 1)) {
+      throw validationError(`Invalid Limit ${Limit}`);
+    }
+
+    if (ExclusiveStartKey) {
+      // Items may have been removed since the previous page was returned, so compare rather than search for the key
+      const start = items.findIndex(item => (forward ? 1 : -1) * this.compareItems(item, ExclusiveStartKey, index) > 0);
+
+      items = start < 0 ? [] : items.slice(start);
+    }
+
+    const evaluated = Limit === undefined ? items : items.slice(0, Limit);
+    const matching = evaluated
+        .filter(item => evaluateCondition(FilterExpression, params, item))
+        .map(item => cloneValue(project(item, ProjectionExpression, ExpressionAttributeNames)) as T);
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+      ...Select !== 'COUNT' && {Items: matching},
+      Count: matching.length,
+      ScannedCount: evaluated.length,
+      ...(evaluated.length < items.length && {
+        LastEvaluatedKey: Object.fromEntries(this.getOrderAttributes(index).map(name => [name, last[name]]))
+      })
+    };
+  }
+}
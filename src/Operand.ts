@@ -1,3 +1,87 @@
+import {deserializeValue, serializeValue} from './Serialization';
+
+/**
+ * A typed operand of a condition or set value, i.e., an attribute path, the size of an attribute or a literal value,
+ * where T is the type of the value the operand evaluates to. Unlike the string forms such as '#b' or ':b', typed
+ * operands are never ambiguous, and comparisons between attributes may be type-checked.
+ */
+export abstract class TypedOperand<T> {
+  // Never set; only used to make operands evaluating to different types incompatible
+  protected readonly type?: T;
+
+  abstract toJSON(): SerializedOperand;
+}
+
+/**
+ * An operand referring to the attribute at the given path, or an interpolated path in an expression created with expr
+ */
+export class Path<T = unknown> extends TypedOperand<T> {
+  constructor(readonly path: string) {
+    super();
+  }
+
+  toJSON(): SerializedOperand {
+    return {$operand: 'path', path: this.path};
+  }
+}
+
+/**
+ * An operand referring to the size of the attribute at the given path
+ */
+export class Size extends TypedOperand<number> {
+  constructor(readonly path: string) {
+    super();
+  }
+
+  toJSON(): SerializedOperand {
+    return {$operand: 'size', path: this.path};
+  }
+}
+
+/**
+ * An operand having a literal value, which is never treated as a path, even if it's a string containing #
+ */
+export class Literal<T> extends TypedOperand<T> {
+  constructor(readonly value: T) {
+    super();
+  }
+
+  toJSON(): SerializedOperand {
+    return {$operand: 'literal', value: serializeValue(this.value)};
+  }
+}
+
+/**
+ * A serialized typed operand. The $operand tag distinguishes serialized operands from serialized literal maps, which
+ * never have keys starting with $.
+ */
+export type SerializedOperand =
+    {$operand: 'path', path: string} |
+    {$operand: 'size', path: string} |
+    {$operand: 'literal', value: unknown};
+
+export function isSerializedOperand(o: any): o is SerializedOperand {
+  if (typeof o !== 'object' || o === null || Object.keys(o).length !== 2) {
+    return false;
+  }
+
+  return (o.$operand === 'path' || o.$operand === 'size') && typeof o.path === 'string' ||
+      o.$operand === 'literal' && 'value' in o;
+}
+
+/**
+ * A value of type T or a typed operand evaluating to type T
+ */
+export type OperandValue<T> = T | TypedOperand<T>;
+
+/**
+ * Factories for typed operands of an item type T, where the type of each operand is inferred from the item type
+ */
+export interface TypedOperands<T> {
+  path<K extends keyof T & string>(path: K): Path<T[K]>;
+  size(path: keyof T & string): Size;
+}
+
 export namespace Operand {
   /**
    * Get the attribute path for the size of an attribute.
@@ -9,6 +93,7 @@ export namespace Operand {
    * }
    *
    * This creates a condition like '#a = 42 AND size(#b) > 4'
+   * To use the size of an attribute as an operand, prefer Operand.sizeOf().
    * @param path
    */
   export function size(path: string): string {
@@ -25,9 +110,92 @@ export namespace Operand {
    * }
    *
    * This creates a condition like '#a > #b'
+   * Prefer Operand.path(), which is never ambiguous and may be type-checked.
    * @param path
    */
   export function get(path: string): string {
     return `#${path}`;
   }
-}
\ No newline at end of file
+
+  /**
+   * Create an operand referring to the attribute at the given path.
+   * Example:
+   *
+   * const conditions = {
+   *   a: Condition.gt(Operand.path<number>('b'))
+   * }
+   *
+   * This creates a condition like '#a > #b', where a must be a number attribute.
+   * @param path
+   */
+  export function path<T = unknown>(path: string): Path<T> {
+    return new Path<T>(path);
+  }
+
+  /**
+   * Create an operand referring to the size of the attribute at the given path.
+   * Example:
+   *
+   * const conditions = {
+   *   a: Condition.le(Operand.sizeOf('b'))
+   * }
+   *
+   * This creates a condition like '#a <= size(#b)'
+   * @param path
+   */
+  export function sizeOf(path: string): Size {
+    return new Size(path);
+  }
+
+  /**
+   * Create an operand having a literal value, e.g. a string containing # which would otherwise be treated as a path.
+   * Example:
+   *
+   * const conditions = {
+   *   a: Condition.eq(Operand.value('#b'))
+   * }
+   *
+   * This creates a condition like '#a = :cond_'
+   * @param value
+   */
+  export function value<T>(value: T): Literal<T> {
+    return new Literal(value);
+  }
+
+  /**
+   * Get factories for typed operands referring to top-level attributes of the item type T, inferring the type of
+   * each operand.
+   * Example:
+   *
+   * const {path} = Operand.of<Item>();
+   * const conditions: ConditionAttributes<Item> = {
+   *   a: Condition.gt(path('b')) // Type error unless a and b have the same type
+   * }
+   */
+  export function of<T>(): TypedOperands<T> {
+    return {
+      path: p => new Path(p),
+      size: p => new Size(p),
+    };
+  }
+
+  /**
+   * Create a typed operand from a serialized operand, as produced by toJSON()
+   * @param o Serialized operand
+   * @throws Error if the given object is not a valid serialized operand
+   */
+  export function fromJSON(o: SerializedOperand): TypedOperand<unknown> {
+    if (!isSerializedOperand(o)) {
+      throw new Error(`Invalid serialized operand: ${JSON.stringify(o)}`);
+    }
+
+    switch (o.$operand) {
+      case 'path':
+        return new Path(o.path);
+      case 'size':
+        return new Size(o.path);
+      case 'literal':
+        return new Literal(deserializeValue(o.value));
+    }
+  }
+}
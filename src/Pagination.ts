@@ -0,0 +1,255 @@
+import {ClientResult, send} from './Client';
+import {Key} from './Types';
+
+/**
+ * A page of items returned by a query() or scan() call
+ */
+export interface Page<T> {
+  Items?: T[];
+  LastEvaluatedKey?: Key;
+  Count?: number;
+  ScannedCount?: number;
+}
+
+/**
+ * The result of a query() or scan() call
+ */
+export type PageResult<T> = ClientResult<Page<T>>;
+
+/**
+ * A minimal client supporting query() calls, such as a DynamoDB document client
+ */
+export interface QueryClient<T> {
+  query(params: Record<string, any>): PageResult<T>;
+}
+
+/**
+ * A minimal client supporting scan() calls, such as a DynamoDB document client
+ */
+export interface ScanClient<T> {
+  scan(params: Record<string, any>): PageResult<T>;
+}
+
+/**
+ * A minimal abort signal, compatible with the standard AbortSignal
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  addEventListener?(type: 'abort', listener: () => void): void;
+  removeEventListener?(type: 'abort', listener: () => void): void;
+}
+
+export interface PaginationOptions {
+  /**
+   * The maximum number of items to return across all pages. The Limit of each request is reduced accordingly.
+   */
+  limit?: number;
+  /**
+   * A signal which aborts pagination, causing the iterator to throw an AbortError
+   */
+  signal?: AbortSignalLike;
+}
+
+export interface ScanOptions extends PaginationOptions {
+  /**
+   * The number of segments to scan in parallel. Pages are returned in the order in which they're received.
+   */
+  totalSegments?: number;
+}
+
+export class AbortError extends Error {
+  constructor() {
+    super('Pagination was aborted');
+    this.name = 'AbortError';
+  }
+}
+
+type Request<T> = (params: Record<string, any>) => PageResult<T>;
+
+/**
+ * The number of items which may still be returned, shared between parallel scan segments
+ */
+interface Budget {
+  remaining: number;
+}
+
+function throwIfAborted(signal?: AbortSignalLike): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
+
+/**
+ * Wait for a promise, rejecting with an AbortError as soon as the signal is aborted
+ * @param promise
+ * @param [signal]
+ */
+async function abortable<T>(promise: Promise<T>, signal?: AbortSignalLike): Promise<T> {
+  if (!signal?.addEventListener) {
+    const result = await promise;
+
+    throwIfAborted(signal);
+    return result;
+  }
+
+  let onAbort: () => void = () => undefined;
+
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((resolve, reject) => {
+        onAbort = () => reject(new AbortError());
+        signal.addEventListener?.('abort', onAbort);
+      })
+    ]);
+  } finally {
+    signal.removeEventListener?.('abort', onAbort);
+  }
+}
+
+async function* paginate<T>(
+    request: Request<T>,
+    params: Record<string, any>,
+    budget: Budget,
+    signal?: AbortSignalLike): AsyncGenerator<Page<T>> {
+  let startKey: Key | undefined = params.ExclusiveStartKey;
+
+  do {
+    if (budget.remaining <= 0) {
+      return;
+    }
+
+    throwIfAborted(signal);
+
+    const limit = Math.min(params.Limit ?? Infinity, budget.remaining);
+    const page = await abortable(send(request({
+      ...params,
+      ...(startKey && {ExclusiveStartKey: startKey}),
+      ...(limit < Infinity && {Limit: limit})
+    })), signal);
+    // Parallel scan segments may exceed the shared limit, since they're requested concurrently
+    const items = (page.Items ?? []).slice(0, budget.remaining);
+
+    budget.remaining -= items.length;
+    startKey = page.LastEvaluatedKey;
+
+    yield {...page, Items: items};
+  } while (startKey);
+}
+
+/**
+ * Merge async iterators, yielding values in the order in which they're produced
+ * @param iterators
+ */
+async function* merge<T>(iterators: Array<AsyncIterator<T>>): AsyncGenerator<T> {
+  const next = (i: number) => iterators[i].next().then(result => ({i, result}));
+  const pending = new Map(iterators.map((iterator, i) => [i, next(i)]));
+
+  try {
+    while (pending.size) {
+      const {i, result} = await Promise.race(pending.values());
+
+      if (result.done) {
+        pending.delete(i);
+      } else {
+        pending.set(i, next(i));
+        yield result.value;
+      }
+    }
+  } finally {
+    // Stop any remaining iterators, ignoring errors from their pending requests
+    for (const [i, promise] of pending) {
+      promise.catch(() => undefined);
+      iterators[i].return?.().catch(() => undefined);
+    }
+  }
+}
+
+async function* itemsOf<T>(pages: AsyncIterable<Page<T>>): AsyncGenerator<T> {
+  for await (const page of pages) {
+    for (const item of page.Items ?? []) {
+      yield item;
+    }
+  }
+}
+
+/**
+ * Query a table or index, following LastEvaluatedKey to iterate over all pages of the result
+ * Example:
+ *
+ * for await (const page of queryPages(ddb, buildKeyConditionParams({conditions: {id: '1'}, params: {TableName}}))) {
+ *   console.log(page.Items);
+ * }
+ * @param client Client supporting query() calls
+ * @param params Query params, as built by e.g. buildKeyConditionParams
+ * @param [options] Options such as the maximum number of items and an abort signal
+ */
+export function queryPages<T>(
+    client: QueryClient<T>,
+    params: Record<string, any>,
+    {limit = Infinity, signal}: PaginationOptions = {}): AsyncGenerator<Page<T>> {
+  return paginate(p => client.query(p), params, {remaining: limit}, signal);
+}
+
+/**
+ * Query a table or index, iterating over all items of all pages of the result
+ * Example:
+ *
+ * for await (const item of queryItems(ddb, params, {limit: 100})) {
+ *   console.log(item);
+ * }
+ * @param client Client supporting query() calls
+ * @param params Query params, as built by e.g. buildKeyConditionParams
+ * @param [options] Options such as the maximum number of items and an abort signal
+ */
+export function queryItems<T>(
+    client: QueryClient<T>,
+    params: Record<string, any>,
+    options?: PaginationOptions): AsyncGenerator<T> {
+  return itemsOf(queryPages(client, params, options));
+}
+
+/**
+ * Scan a table or index, following LastEvaluatedKey to iterate over all pages of the result. If totalSegments is
+ * given, the segments are scanned in parallel.
+ * Example:
+ *
+ * for await (const page of scanPages(ddb, {TableName}, {totalSegments: 4})) {
+ *   console.log(page.Items);
+ * }
+ * @param client Client supporting scan() calls
+ * @param params Scan params, as built by e.g. buildFilterParams
+ * @param [options] Options such as the number of parallel segments, the maximum number of items and an abort signal
+ */
+export function scanPages<T>(
+    client: ScanClient<T>,
+    params: Record<string, any>,
+    {limit = Infinity, signal, totalSegments}: ScanOptions = {}): AsyncGenerator<Page<T>> {
+  const budget = {remaining: limit};
+  const request = (p: Record<string, any>) => client.scan(p);
+
+  if (totalSegments === undefined) {
+    return paginate(request, params, budget, signal);
+  }
+
+  if (!Number.isInteger(totalSegments) || totalSegments < 1) {
+    throw new Error(`Invalid number of segments: ${totalSegments}`);
+  }
+
+  return merge(Array.from({length: totalSegments}, (_, segment) =>
+      paginate(request, {...params, Segment: segment, TotalSegments: totalSegments}, budget, signal)));
+}
+
+/**
+ * Scan a table or index, iterating over all items of all pages of the result. If totalSegments is given, the
+ * segments are scanned in parallel.
+ * @param client Client supporting scan() calls
+ * @param params Scan params, as built by e.g. buildFilterParams
+ * @param [options] Options such as the number of parallel segments, the maximum number of items and an abort signal
+ */
+export function scanItems<T>(
+    client: ScanClient<T>,
+    params: Record<string, any>,
+    options?: ScanOptions): AsyncGenerator<T> {
+  return itemsOf(scanPages(client, params, options));
+}
@@ -0,0 +1,224 @@
+import {parseOperand, parsePath} from './AttributePath';
+import {marshall} from './AttributeValue';
+import {CompositeCondition} from './CompositeCondition';
+import {Condition, ConditionSet, operatorMap} from './Condition';
+import {Expression} from './Expression';
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+import {Key} from './Types';
+import {SetValue, UpdateAction, UpdateAttributes} from './UpdateAction';
+
+export interface PartiQLParams {
+  Statement: string;
+  Parameters: unknown[];
+}
+
+export interface PartiQLWhereClause {
+  WhereClause: string;
+  Parameters: unknown[];
+}
+
+type PartiQLOptions = Pick<ExpressionBuilderOptions, 'valueFormat'>;
+
+function quoteName(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a document path for PartiQL, e.g. a.b[1] => "a"."b"[1]
+ * @param path
+ */
+function quotePath(path: string): string {
+  return parsePath(path)
+      .map((element, i) => typeof element === 'number' ? `[${element}]` :
+          `${i ? '.' : ''}${quoteName(element)}`)
+      .join('');
+}
+
+/**
+ * Render a condition given the quoted attribute path and functions adding the values of an IN condition and
+ * rendering nested conditions
+ */
+type RenderCondition = (path: string, values: () => string[], nested: () => string[]) => string;
+
+/**
+ * The PartiQL syntax of conditions whose syntax differs from condition expressions, by Condition factory method.
+ * Nested conditions are rendered recursively, since their operands may also differ.
+ */
+const partiQLSyntax: Partial<Record<keyof typeof Condition, RenderCondition>> = {
+  in: (path, values) => `${path} IN [${values().join(', ')}]`,
+  attributeExists: path => `${path} IS NOT MISSING`,
+  attributeNotExists: path => `${path} IS MISSING`,
+  not: (path, values, nested) => `NOT (${nested()[0]})`,
+  and: (path, values, nested) => `(${nested().join(' AND ')})`,
+  or: (path, values, nested) => `(${nested().join(' OR ')})`,
+};
+
+class PartiQLBuilder {
+  readonly parameters: unknown[] = [];
+
+  constructor(private readonly options: PartiQLOptions = {}) {
+  }
+
+  addOperand(operand: unknown, defaultType: 'name' | 'value'): string {
+    if (operand instanceof Expression) {
+      throw new Error(`Raw expression operand '${operand}' is not supported in PartiQL`);
+    }
+
+    const parsed = parseOperand(operand, defaultType);
+
+    if ('value' in parsed) {
+      this.parameters.push(this.options.valueFormat === 'attributeValue' ? marshall(parsed.value) : parsed.value);
+      return '?';
+    }
+
+    return parsed.size ? `size(${quotePath(parsed.path)})` : quotePath(parsed.path);
+  }
+
+  buildConditionSet<T>(conditions: ConditionSet<T>): string | undefined {
+    if (conditions instanceof CompositeCondition) {
+      const expressions = conditions.operands
+          .map(operand => this.buildConditionSet(operand))
+          .filter(expression => expression);
+      const expr = expressions.join(` ${conditions.operator} `);
+
+      return (expressions.length > 1 ? `(${expr})` : expr) || undefined;
+    }
+
+    return Object.entries(conditions)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => this.buildCondition(key, Condition.from(value)))
+        .join(' AND ') || undefined;
+  }
+
+  buildCondition(key: string, condition: Condition<unknown>): string {
+    const {operator, operands} = condition;
+    const render = partiQLSyntax[operatorMap[operator]];
+
+    if (!render) {
+      // The operator has the same syntax as in condition expressions
+      return condition.build(key, this).expression;
+    }
+
+    const path = this.addOperand(key, 'name');
+    const values = () => (operands[0] as unknown[]).map(operand => this.addOperand(operand, 'value'));
+    const nested = () => operands.map(operand => this.buildCondition(key, Condition.from(operand)));
+
+    return render(path, values, nested);
+  }
+
+  buildSetValue(v: SetValue): string {
+    const {func, operands} = v;
+    const operand = (o: unknown) => o instanceof SetValue ? this.buildSetValue(o) :
+        this.addOperand(o, typeof o === 'string' ? 'name' : 'value');
+
+    switch (func) {
+      case 'value':
+        return this.addOperand(operands[0], 'value');
+      case 'add':
+        return operands.map(operand).join(' + ');
+      case 'subtract':
+        return operands.map(operand).join(' - ');
+      case 'append':
+        return `list_append(${operands.map(operand).join(', ')})`;
+      default:
+        throw new Error(`SetValue.${func} is not supported in PartiQL`);
+    }
+  }
+
+  buildUpdate<T>(attributes: UpdateAttributes<T>): string {
+    const clauses: string[] = [];
+    const removeClauses: string[] = [];
+
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        const {type, operands: [operand]} = UpdateAction.from(value);
+        const path = this.addOperand(key, 'name');
+
+        switch (type) {
+          case 'SET':
+            clauses.push(`SET ${path} = ${this.buildSetValue(operand as SetValue)}`);
+            break;
+          case 'REMOVE':
+            removeClauses.push(`REMOVE ${path}`);
+            break;
+          case 'ADD':
+            if (!(operand instanceof Set)) {
+              throw new Error(`ADD of a number to '${key}' is not supported in PartiQL; use SetValue.add instead`);
+            }
+            clauses.push(`SET ${path} = set_add(${path}, ${this.addOperand(operand, 'value')})`);
+            break;
+          case 'DELETE':
+            clauses.push(`SET ${path} = set_delete(${path}, ${this.addOperand(operand, 'value')})`);
+            break;
+        }
+      }
+    }
+
+    return [...clauses, ...removeClauses].join(' ');
+  }
+}
+
+/**
+ * Build a PartiQL WHERE clause from the given conditions, using positional parameters.
+ * Example:
+ *
+ * buildPartiQLWhereClause({conditions: {a: Condition.gt(5), b: Condition.in(['x', 'y'])}});
+ * // {WhereClause: 'WHERE "a" > ? AND "b" IN [?, ?]', Parameters: [5, 'x', 'y']}
+ * @param conditions Condition set
+ * @param [options] Options such as the value format of the parameters
+ * @throws Error if the conditions are empty
+ */
+export function buildPartiQLWhereClause<T>(
+    {conditions, options}: {conditions: ConditionSet<T>; options?: PartiQLOptions}
+): PartiQLWhereClause {
+  const builder = new PartiQLBuilder(options);
+  const expression = builder.buildConditionSet(conditions);
+
+  if (!expression) {
+    throw new Error(`Cannot build WHERE clause for empty conditions`);
+  }
+
+  return {WhereClause: `WHERE ${expression}`, Parameters: builder.parameters};
+}
+
+/**
+ * Build params for an executeStatement() call to the DynamoDB client with a PartiQL UPDATE statement
+ * Example:
+ *
+ * buildPartiQLUpdateParams({tableName: 'my-stuff', key: {id: '42'}, attributes: {a: 1, b: UpdateAction.remove()}});
+ * // {Statement: 'UPDATE "my-stuff" SET "a" = ? REMOVE "b" WHERE "id" = ?', Parameters: [1, '42']}
+ * @param tableName Table name
+ * @param key Primary key of the item to update
+ * @param attributes Update attributes
+ * @param [conditions] Optional conditions which must be fulfilled for the update to be performed
+ * @param [params] Optional other params such as ReturnValuesOnConditionCheckFailure.
+ *                 This object will be merged with the produced Statement and Parameters.
+ * @param [options] Options such as the value format of the parameters
+ * @throws Error if the attributes are empty or contain actions not supported in PartiQL
+ */
+export function buildPartiQLUpdateParams<T, P extends Record<string, unknown>>(
+    {tableName, key, attributes, conditions, params = {} as P, options}: {
+      tableName: string;
+      key: Key;
+      attributes: UpdateAttributes<T>;
+      conditions?: ConditionSet<T>;
+      params?: P;
+      options?: PartiQLOptions;
+    }
+): PartiQLParams & P {
+  const builder = new PartiQLBuilder(options);
+  const update = builder.buildUpdate(attributes);
+
+  if (!update) {
+    throw new Error(`Cannot build update statement for empty attributes`);
+  }
+
+  const keyConditions = Object.fromEntries(Object.entries(key)
+      .map(([name, value]) => [`#${name}`, Condition.eq(typeof value === 'string' ? `:${value}` : value)])) as ConditionSet<T>;
+  const where = builder.buildConditionSet(conditions ? ConditionSet.and(keyConditions, conditions) : keyConditions);
+
+  return Object.assign(params, {
+    Statement: `UPDATE ${quoteName(tableName)} ${update} WHERE ${where}`,
+    Parameters: builder.parameters
+  }) as P & PartiQLParams;
+}
@@ -0,0 +1,49 @@
+import {Params} from './ExpressionBuilder';
+import {ProjectionExpressionBuilder} from './ProjectionExpressionBuilder';
+
+/**
+ * A list of attribute paths to project. Top-level attribute names of the item type are suggested, but any
+ * document path such as 'a.b[2].c' may be used.
+ */
+export type ProjectionAttributes<T> = ReadonlyArray<(keyof T & string) | string>;
+
+/**
+ * The item type produced by projecting the given top-level attributes of T.
+ * Example:
+ *
+ * const attributes = ['id', 'name'] as const;
+ * type Summary = ProjectedItem<Item, typeof attributes>; // Pick<Item, 'id' | 'name'>
+ */
+export type ProjectedItem<T, A extends ProjectionAttributes<T>> = Pick<T, Extract<A[number], keyof T>>;
+
+export interface ProjectionParams extends Omit<Params, 'ExpressionAttributeValues'> {
+  ProjectionExpression: string;
+}
+
+/**
+ * Build a ProjectionExpression string from the given attribute paths
+ * @param attributes Attribute paths
+ * @param params in/out params; attribute names from the paths will be inserted here
+ */
+export function buildProjectionExpression<T>(attributes: ProjectionAttributes<T>, params: Partial<Params>): string | undefined {
+  return new ProjectionExpressionBuilder(params).build([...attributes]) || undefined;
+}
+
+/**
+ * Build projection params to be used for a get(), query() or scan() call to the DynamoDB client
+ * @param attributes Attribute paths to project, e.g. ['id', 'a.b[2].c']
+ * @param [params] Optional other params such as TableName, or params already built by e.g. buildKeyConditionParams.
+ *                 This object will be merged with the produced ProjectionExpression and associated
+ *                 ExpressionAttributeNames.
+ */
+export function buildProjectionParams<T, P extends Record<string, unknown>>(
+    {attributes, params = {} as P}: {attributes: ProjectionAttributes<T>, params?: P}
+): ProjectionParams & P {
+  const expression = buildProjectionExpression(attributes, params);
+
+  if (!expression) {
+    throw new Error(`Cannot build projection expression for empty attributes`);
+  }
+
+  return Object.assign(params, {ProjectionExpression: expression}) as P & ProjectionParams;
+}
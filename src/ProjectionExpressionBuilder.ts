@@ -0,0 +1,22 @@
+import {ExpressionBuilder} from './ExpressionBuilder';
+
+export class ProjectionExpressionBuilder extends ExpressionBuilder<string[]> {
+  private readonly paths: string[] = [];
+
+  build(attributes: string[]): string | undefined {
+    for (const path of attributes) {
+      // A leading # is allowed for consistency with Operand.get(), but a projection only ever contains names
+      const name = this.addName(path.replace(/^#/, ''));
+
+      if (!this.paths.includes(name)) {
+        this.addPath(name);
+      }
+    }
+
+    return this.paths.join(', ') || undefined;
+  }
+
+  addPath(path: string): void {
+    this.paths.push(path);
+  }
+}
@@ -0,0 +1,51 @@
+function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function isTagged(value: unknown, tag: string): value is Record<string, unknown> {
+  return isMap(value) && Object.keys(value).length === 1 && tag in value;
+}
+
+function mapValues(map: Record<string, unknown>, f: (value: unknown) => unknown): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(map).map(([k, v]) => [k, f(v)]));
+}
+
+/**
+ * Serialize a literal value into a JSON-compatible value. Sets, which are not supported by JSON, are converted to
+ * objects like {$set: [1, 2]}, also when nested in lists and maps. Maps having keys starting with $ are wrapped like
+ * {$map: {...}}, so that serialized values are never mistaken for tagged objects such as serialized sets or operands.
+ * @param value
+ */
+export function serializeValue(value: unknown): unknown {
+  if (value instanceof Set) {
+    return {$set: [...value].map(serializeValue)};
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeValue);
+  }
+  if (isMap(value)) {
+    const map = mapValues(value, serializeValue);
+
+    return Object.keys(map).some(key => key.startsWith('$')) ? {$map: map} : map;
+  }
+
+  return value;
+}
+
+/**
+ * Deserialize a literal value produced by serializeValue()
+ * @param value
+ */
+export function deserializeValue(value: unknown): unknown {
+  if (isTagged(value, '$set') && Array.isArray(value.$set)) {
+    return new Set(value.$set.map(deserializeValue));
+  }
+  if (Array.isArray(value)) {
+    return value.map(deserializeValue);
+  }
+  if (isMap(value)) {
+    return mapValues(isTagged(value, '$map') && isMap(value.$map) ? value.$map : value, deserializeValue);
+  }
+
+  return value;
+}
@@ -0,0 +1,199 @@
+import {parseOperand} from './AttributePath';
+import {
+  buildFilterParams,
+  buildKeyConditionParams,
+  Condition,
+  ConditionAttributes,
+  FilterParams,
+  KeyConditionParams,
+  Operator
+} from './Condition';
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+import {KeyConditionAttributes, KeySchema, SORT_KEY_OPERATORS} from './KeySchema';
+
+/**
+ * The attributes projected into an index; all attributes, only the key attributes, or the key attributes and the
+ * given non-key attributes.
+ */
+export type IndexProjection = 'ALL' | 'KEYS_ONLY' | string[];
+
+export interface IndexDefinition {
+  name: string;
+  type: 'global' | 'local';
+  keySchema: KeySchema<string, string>;
+  /**
+   * The attributes projected into the index; 'ALL' by default
+   */
+  projection?: IndexProjection;
+}
+
+export interface TableDefinition {
+  tableName: string;
+  keySchema: KeySchema<string, string>;
+  indexes?: IndexDefinition[];
+}
+
+export type QueryParams = KeyConditionParams & Partial<FilterParams> & {
+  TableName: string;
+  IndexName?: string;
+};
+
+interface Candidate {
+  index?: IndexDefinition;
+  keySchema: KeySchema<string, string>;
+}
+
+interface Plan {
+  candidate: Candidate;
+  keyConditions: Array<[string, unknown]>;
+  filterConditions: Array<[string, unknown]>;
+  score: number;
+}
+
+function getPath(key: string): string | undefined {
+  const parsed = parseOperand(key, 'name');
+
+  return 'path' in parsed && !parsed.size ? parsed.path : undefined;
+}
+
+function getRootAttribute(key: string): string {
+  const parsed = parseOperand(key, 'name');
+
+  return 'path' in parsed ? parsed.path.split(/[.[]/)[0] : key;
+}
+
+function isKeyCondition(value: unknown, operators: Operator[]): boolean {
+  const {operator, operands} = Condition.from(value);
+
+  return operators.includes(operator) && operands.every(operand => 'value' in parseOperand(operand, 'value'));
+}
+
+function isProjected(table: TableDefinition, {index}: Candidate, attribute: string): boolean {
+  const {projection = 'ALL'} = index ?? {};
+  const keyAttributes = [table.keySchema, index?.keySchema]
+      .flatMap(keySchema => [keySchema?.partitionKey, keySchema?.sortKey]);
+
+  return projection === 'ALL' || keyAttributes.includes(attribute) ||
+      (Array.isArray(projection) && projection.includes(attribute));
+}
+
+function plan(table: TableDefinition, candidate: Candidate, entries: Array<[string, unknown]>): Plan | undefined {
+  const {partitionKey, sortKey} = candidate.keySchema;
+  const partitionKeyEntry = entries.find(([key, value]) => getPath(key) === partitionKey && isKeyCondition(value, ['=']));
+  const sortKeyEntry = entries.find(([key, value]) =>
+      sortKey !== undefined && getPath(key) === sortKey && isKeyCondition(value, SORT_KEY_OPERATORS));
+
+  if (!partitionKeyEntry) {
+    return undefined;
+  }
+
+  const keyConditions = sortKeyEntry ? [partitionKeyEntry, sortKeyEntry] : [partitionKeyEntry];
+  const filterConditions = entries.filter(entry => !keyConditions.includes(entry));
+
+  // DynamoDB rejects filter expressions using key attributes, so conditions on them must all be key conditions
+  if (filterConditions.some(([key]) => [partitionKey, sortKey].includes(getRootAttribute(key)))) {
+    return undefined;
+  }
+
+  // Global secondary indexes can only return projected attributes, so filters may only use projected attributes
+  if (candidate.index?.type === 'global' &&
+      !filterConditions.every(([key]) => isProjected(table, candidate, getRootAttribute(key)))) {
+    return undefined;
+  }
+
+  return {candidate, keyConditions, filterConditions, score: keyConditions.length};
+}
+
+/**
+ * Select the table or index to use for querying the given conditions, i.e., the table or index having a partition key
+ * with an equality condition, preferring tables or indexes where the sort key may also be used in the key condition.
+ * If multiple indexes are equally good, the table itself is preferred, followed by the indexes in declaration order.
+ * Since filter expressions may not use key attributes, a table or index is skipped if it has a key attribute with a
+ * condition which cannot be used in the key condition, such as a <> or contains condition.
+ * @param table Table definition
+ * @param conditions Query conditions
+ * @param [indexName] Optional name of the index to use, or null to use the table itself
+ * @return The selected index, or undefined if the table itself is selected, and the conditions split into key
+ *         conditions and filter conditions
+ * @throws Error if no table or index can be used for querying the conditions
+ */
+export function selectIndex<T>(
+    table: TableDefinition,
+    conditions: ConditionAttributes<T>,
+    indexName?: string | null
+): {index?: IndexDefinition; keyConditions: ConditionAttributes<T>; filterConditions: ConditionAttributes<T>} {
+  const {keySchema, indexes = []} = table;
+  const entries = Object.entries(conditions).filter(([, value]) => value !== undefined);
+  const candidates = ([{keySchema}, ...indexes.map(index => ({index, keySchema: index.keySchema}))] as Candidate[])
+      .filter(({index}) => indexName === undefined || (index?.name ?? null) === indexName);
+
+  if (!candidates.length) {
+    throw new Error(`Table ${table.tableName} has no index ${indexName}`);
+  }
+
+  const [best] = candidates
+      .map(candidate => plan(table, candidate, entries))
+      .filter((p): p is Plan => !!p)
+      .sort((a, b) => b.score - a.score);
+
+  if (!best) {
+    throw new Error(`No ${indexName ? `index ${indexName}` : 'index'} of table ${table.tableName} can be used to query ${
+        entries.map(([key]) => key).join(', ')}`);
+  }
+
+  return {
+    index: best.candidate.index,
+    keyConditions: Object.fromEntries(best.keyConditions) as ConditionAttributes<T>,
+    filterConditions: Object.fromEntries(best.filterConditions) as ConditionAttributes<T>,
+  };
+}
+
+/**
+ * Build query params to be used for a query() call to the DynamoDB client. The table or index to query is selected
+ * from the table definition using selectIndex(), and the conditions are split into a KeyConditionExpression and
+ * a FilterExpression.
+ * Example:
+ *
+ * const table = {
+ *   tableName: 'orders',
+ *   keySchema: {partitionKey: 'id'},
+ *   indexes: [{name: 'byCustomer', type: 'global', keySchema: {partitionKey: 'customerId', sortKey: 'createdAt'}}]
+ * };
+ *
+ * buildQueryParams({table, conditions: {customerId: '42', createdAt: Condition.gt(t), status: 'open'}});
+ * // IndexName 'byCustomer', KeyConditionExpression for customerId and createdAt, FilterExpression for status
+ * @param table Table definition
+ * @param conditions Query conditions
+ * @param [indexName] Optional name of the index to use, or null to use the table itself
+ * @param [params] Optional other params such as Limit, additional ExpressionAttributeNames etc.
+ *                 This object will be merged with the produced TableName, IndexName, KeyConditionExpression,
+ *                 FilterExpression and associated ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders
+ * @throws Error if no table or index can be used for querying the conditions
+ */
+export function buildQueryParams<T, P extends Record<string, unknown>>(
+    {table, conditions, indexName, params = {} as P, options}: {
+      table: TableDefinition;
+      conditions: ConditionAttributes<T>;
+      indexName?: string | null;
+      params?: P;
+      options?: ExpressionBuilderOptions;
+    }
+): QueryParams & P {
+  const {index, keyConditions, filterConditions} = selectIndex(table, conditions, indexName);
+
+  Object.assign(params, {TableName: table.tableName}, index && {IndexName: index.name});
+
+  buildKeyConditionParams({
+    conditions: keyConditions as KeyConditionAttributes<string, string>,
+    keySchema: index?.keySchema ?? table.keySchema,
+    params,
+    options
+  });
+
+  if (Object.keys(filterConditions).length) {
+    buildFilterParams({conditions: filterConditions, params, options});
+  }
+
+  return params as P & QueryParams;
+}
@@ -0,0 +1,165 @@
+import {formatItem} from './AttributeValue';
+import {buildConditionParams, ConditionParams, ConditionSet} from './Condition';
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+import {withConditions} from './ItemParams';
+import {Key} from './Types';
+import {buildUpdateParams, UpdateAttributes, UpdateParams} from './UpdateAction';
+
+// https://docs.aws.amazon.com/amazondynamodb/latest/APIReference/API_TransactWriteItems.html
+const MAX_TRANSACT_ITEMS = 100;
+
+interface TableOperation {
+  tableName: string;
+  /**
+   * Optional other params for the operation, such as ReturnValuesOnConditionCheckFailure
+   */
+  params?: Record<string, unknown>;
+}
+
+export interface TransactUpdate<T> extends TableOperation {
+  type: 'Update';
+  key: Key;
+  attributes: UpdateAttributes<T>;
+  conditions?: ConditionSet<T>;
+}
+
+export interface TransactPut<T> extends TableOperation {
+  type: 'Put';
+  item: T;
+  /**
+   * The names of the key attributes of the item, used to detect multiple operations on the same item
+   */
+  keyAttributes: Array<keyof T & string>;
+  conditions?: ConditionSet<T>;
+}
+
+export interface TransactDelete<T> extends TableOperation {
+  type: 'Delete';
+  key: Key;
+  conditions?: ConditionSet<T>;
+}
+
+export interface TransactConditionCheck<T> extends TableOperation {
+  type: 'ConditionCheck';
+  key: Key;
+  conditions: ConditionSet<T>;
+}
+
+export type TransactWriteOperation<T = any> =
+    TransactUpdate<T> | TransactPut<T> | TransactDelete<T> | TransactConditionCheck<T>;
+
+type TableParams = {TableName: string};
+type KeyParams = TableParams & {Key: Key};
+
+export type TransactWriteItem =
+    {Update: KeyParams & UpdateParams & Partial<ConditionParams>} |
+    {Put: TableParams & {Item: unknown} & Partial<ConditionParams>} |
+    {Delete: KeyParams & Partial<ConditionParams>} |
+    {ConditionCheck: KeyParams & ConditionParams};
+
+export interface TransactWriteParams {
+  TransactItems: TransactWriteItem[];
+}
+
+function getKey(operation: TransactWriteOperation): Key {
+  if (operation.type !== 'Put') {
+    return operation.key;
+  }
+
+  const item = operation.item as Record<string, unknown>;
+
+  return Object.fromEntries(operation.keyAttributes.map(name => {
+    if (item[name] === undefined) {
+      throw new Error(`Put item for table ${operation.tableName} is missing key attribute ${name}`);
+    }
+    return [name, item[name]];
+  }));
+}
+
+function getItemId(tableName: string, key: Key): string {
+  return JSON.stringify([tableName, ...Object.entries(key).sort(([a], [b]) => a.localeCompare(b))]);
+}
+
+function buildTransactWriteItem(operation: TransactWriteOperation, options?: ExpressionBuilderOptions): TransactWriteItem {
+  const {tableName: TableName, params} = operation;
+
+  switch (operation.type) {
+    case 'Update': {
+      const {attributes, conditions} = operation;
+      const Key = formatItem(operation.key, options);
+
+      return {
+        Update: withConditions(buildUpdateParams({attributes, params: {...params, TableName, Key}, options}), conditions, options)
+      };
+    }
+    case 'Put': {
+      const {conditions} = operation;
+      const Item = formatItem(operation.item, options);
+
+      return {Put: withConditions({...params, TableName, Item}, conditions, options)};
+    }
+    case 'Delete': {
+      const {conditions} = operation;
+      const Key = formatItem(operation.key, options);
+
+      return {Delete: withConditions({...params, TableName, Key}, conditions, options)};
+    }
+    case 'ConditionCheck': {
+      const {conditions} = operation;
+      const Key = formatItem(operation.key, options);
+
+      return {ConditionCheck: buildConditionParams({conditions, params: {...params, TableName, Key}, options})};
+    }
+  }
+}
+
+/**
+ * Build params to be used for a transactWrite() call to the DynamoDB client, where each operation is built like
+ * the corresponding single-item params.
+ * Example:
+ *
+ * await ddb.transactWrite(buildTransactWriteParams({
+ *   operations: [
+ *     {type: 'Update', tableName: 'accounts', key: {id: '1'}, attributes: {balance: UpdateAction.add(-10)},
+ *       conditions: {balance: Condition.ge(10)}},
+ *     {type: 'Update', tableName: 'accounts', key: {id: '2'}, attributes: {balance: UpdateAction.add(10)}},
+ *   ]
+ * }));
+ * @param operations Update, Put, Delete or ConditionCheck operations
+ * @param [params] Optional other params such as ClientRequestToken.
+ *                 This object will be merged with the produced TransactItems.
+ * @param [options] Options such as the naming strategy for value placeholders. With the attributeValue value format,
+ *                  items and keys are converted into AttributeValues as well.
+ * @throws Error if there are no operations, too many operations or multiple operations on the same item
+ */
+export function buildTransactWriteParams<P extends Record<string, unknown>>(
+    {operations, params = {} as P, options}: {
+      operations: TransactWriteOperation[];
+      params?: P;
+      options?: ExpressionBuilderOptions;
+    }
+): TransactWriteParams & P {
+  if (!operations.length) {
+    throw new Error(`Cannot build transaction for empty operations`);
+  }
+  if (operations.length > MAX_TRANSACT_ITEMS) {
+    throw new Error(`Cannot build transaction with ${operations.length} operations, exceeding ${MAX_TRANSACT_ITEMS}`);
+  }
+
+  const itemIds = new Set<string>();
+
+  for (const operation of operations) {
+    const key = getKey(operation);
+    const itemId = getItemId(operation.tableName, key);
+
+    if (itemIds.has(itemId)) {
+      throw new Error(`Cannot build transaction with multiple operations on item ${JSON.stringify(key)} in table ${
+          operation.tableName}`);
+    }
+    itemIds.add(itemId);
+  }
+
+  return Object.assign(params, {
+    TransactItems: operations.map(operation => buildTransactWriteItem(operation, options))
+  }) as P & TransactWriteParams;
+}
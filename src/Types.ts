@@ -0,0 +1,4 @@
+/**
+ * The primary key of an item
+ */
+export type Key = Record<string, unknown>;
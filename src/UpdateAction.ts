@@ -1,8 +1,20 @@
-import {Params} from './ExpressionBuilder';
+import {
+  cloneValue,
+  parseOperand,
+  parsePath,
+  PathElement,
+  removeAttribute,
+  resolveOperand,
+  setAttribute
+} from './AttributePath';
+import {deserializeOperand, Expression, serializeOperand} from './Expression';
+import {ExpressionBuilderOptions, Params} from './ExpressionBuilder';
+import {Operand, OperandValue, Path} from './Operand';
+import {ExpressionValidationError, OverlappingPathsError, validateUpdateExpression} from './ExpressionValidator';
 import ParamsBuilder from './ParamsBuilder';
 import {ActionType, UpdateExpressionBuilder} from './UpdateExpressionBuilder';
 
-type UpdateValue<V> = V | UpdateAction<V | void>;
+type UpdateValue<V> = OperandValue<V> | Expression | UpdateAction<V | void>;
 
 export type UpdateAttributes<T> = {
   [P in keyof T]?: UpdateValue<T[P]>;
@@ -14,15 +26,101 @@ export interface UpdateParams extends Params {
   UpdateExpression: string;
 }
 
+type SetFunction = 'value' | 'add' | 'subtract' | 'append' | 'ifNotExists';
+
+export interface SerializedUpdateAction {
+  readonly type: ActionType;
+  readonly operands: unknown[];
+}
+
+export interface SerializedSetValue {
+  readonly func: SetFunction;
+  readonly operands: unknown[];
+}
+
+const ACTION_TYPES: ActionType[] = ['SET', 'REMOVE', 'ADD', 'DELETE'];
+const SET_FUNCTIONS: SetFunction[] = ['value', 'add', 'subtract', 'append', 'ifNotExists'];
+
+function isSerializedUpdateAction(a: any): a is SerializedUpdateAction {
+  return ACTION_TYPES.includes(a?.type) && Array.isArray(a.operands);
+}
+
+function isSerializedSetValue(v: any): v is SerializedSetValue {
+  return SET_FUNCTIONS.includes(v?.func) && Array.isArray(v.operands);
+}
+
+function serializeSetOperand(operand: unknown): unknown {
+  return operand instanceof SetValue ? operand.toJSON() : serializeOperand(operand);
+}
+
+function deserializePathOrValue(operand: unknown): unknown {
+  return isSerializedSetValue(operand) ? SetValue.fromJSON(operand) : deserializeOperand(operand);
+}
+
 /**
  * A DynamoDB update action
  * See https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.htmls
  */
-export class UpdateAction<T> {
-  private constructor(readonly build: (key: string, builder: ParamsBuilder) => {
-    type: ActionType;
-    expression: string;
-  }) {
+export class UpdateAction<T> implements SerializedUpdateAction {
+  private constructor(
+      readonly type: ActionType,
+      readonly operands: unknown[],
+      readonly build: (key: string, builder: ParamsBuilder) => {
+        type: ActionType;
+        expression: string;
+      }) {
+  }
+
+  /**
+   * Serialize to JSON. The resulting JSON may be parsed into a SerializedUpdateAction object which may be passed to
+   * UpdateAction.fromJSON() to return an equivalent UpdateAction object.
+   *
+   * Example:
+   * const a = UpdateAction.add(new Set([1, 2]));
+   * const json = JSON.stringify(a);
+   * UpdateAction.fromJSON(JSON.parse(json)); // equivalent to a
+   */
+  toJSON(): SerializedUpdateAction {
+    const {type, operands} = this;
+
+    return {type, operands: operands.map(serializeSetOperand)};
+  }
+
+  /**
+   * Create an UpdateAction from a serialized update action, as produced by toJSON()
+   * @param a Serialized update action
+   * @throws Error if the given object is not a valid serialized update action
+   */
+  static fromJSON(a: SerializedUpdateAction): UpdateAction<unknown> {
+    if (!isSerializedUpdateAction(a)) {
+      throw new Error(`Invalid serialized update action: ${JSON.stringify(a)}`);
+    }
+
+    const {type, operands} = a;
+    const [operand] = operands.map(deserializeOperand);
+
+    switch (type) {
+      case 'SET':
+        if (operands.length !== 1 || !isSerializedSetValue(operands[0])) {
+          throw new Error(`Invalid operands for serialized SET action: ${JSON.stringify(operands)}`);
+        }
+        return UpdateAction.set(SetValue.fromJSON(operands[0]));
+      case 'REMOVE':
+        if (operands.length !== 0) {
+          throw new Error(`Invalid operands for serialized REMOVE action: ${JSON.stringify(operands)}`);
+        }
+        return UpdateAction.remove();
+      case 'ADD':
+        if (operands.length !== 1 || !(typeof operand === 'number' || operand instanceof Set)) {
+          throw new Error(`Invalid operands for serialized ADD action: ${JSON.stringify(operands)}`);
+        }
+        return UpdateAction.add(operand);
+      case 'DELETE':
+        if (operands.length !== 1 || !(operand instanceof Set)) {
+          throw new Error(`Invalid operands for serialized DELETE action: ${JSON.stringify(operands)}`);
+        }
+        return UpdateAction.delete(operand);
+    }
   }
 
   /**
@@ -36,13 +134,13 @@ export class UpdateAction<T> {
 
   /**
    * Obtain an UpdateAction for a SET action
-   * @param value Literal value to set, or a complex value that adds, subtracts, appends or conditionally sets a value if it exists
+   * @param value Literal value or expression to set, or a complex value that adds, subtracts, appends or conditionally sets a value if it exists
    * @see https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.SET
    */
-  static set<T>(value: T | SetValue<T>): UpdateAction<T> {
-    return new UpdateAction((key, builder) => {
-      const v = value instanceof SetValue ? value : SetValue.value(value);
+  static set<T>(value: OperandValue<T> | Expression | SetValue<T>): UpdateAction<T> {
+    const v = value instanceof SetValue ? value : SetValue.value(value);
 
+    return new UpdateAction('SET', [v], (key, builder) => {
       return {
         type: 'SET',
         expression: `${builder.addOperand(key, 'name')} = ${v.build(key, builder)}`
@@ -55,7 +153,7 @@ export class UpdateAction<T> {
    * See https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.REMOVE
    */
   static remove(): UpdateAction<void> {
-    return new UpdateAction((key, builder) => ({
+    return new UpdateAction('REMOVE', [], (key, builder) => ({
       type: 'REMOVE',
       expression: `${builder.addOperand(key, 'name')}`
     }));
@@ -68,7 +166,7 @@ export class UpdateAction<T> {
    * @param value
    */
   static add<T extends number | Set<unknown>>(value: T): UpdateAction<T> {
-    return new UpdateAction((key, builder) => ({
+    return new UpdateAction('ADD', [value], (key, builder) => ({
       type: 'ADD',
       expression: `${builder.addOperand(key, 'name')} ${builder.addOperand(value, 'value', 'add')}`
     }));
@@ -80,14 +178,14 @@ export class UpdateAction<T> {
    * See https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.DELETE
    */
   static delete<T extends Set<unknown>>(value: T): UpdateAction<T> {
-    return new UpdateAction((key, builder) => ({
+    return new UpdateAction('DELETE', [value], (key, builder) => ({
       type: 'DELETE',
       expression: `${builder.addOperand(key, 'name')} ${builder.addOperand(value, 'value', 'delete')}`
     }));
   }
 }
 
-type PathOrValue<T> = T | string | SetValue<T>;
+type PathOrValue<T> = OperandValue<T> | string | Expression | SetValue<T>;
 
 function buildSetOperand<T>(key: string, value: PathOrValue<T>, builder: ParamsBuilder, prefix?: string) {
   if (value instanceof SetValue) {
@@ -104,16 +202,66 @@ function buildSetOperand<T>(key: string, value: PathOrValue<T>, builder: ParamsB
  * A complex set value using DynamoDB SET functions
  * See https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.SET
  */
-export class SetValue<T = unknown> {
-  private constructor(readonly build: (key: string, builder: ParamsBuilder) => string) {
+export class SetValue<T = unknown> implements SerializedSetValue {
+  private constructor(
+      readonly func: SetFunction,
+      readonly operands: unknown[],
+      readonly build: (key: string, builder: ParamsBuilder) => string) {
+  }
+
+  /**
+   * Serialize to JSON. The resulting JSON may be parsed into a SerializedSetValue object which may be passed to
+   * SetValue.fromJSON() to return an equivalent SetValue object.
+   */
+  toJSON(): SerializedSetValue {
+    const {func, operands} = this;
+
+    return {func, operands: operands.map(serializeSetOperand)};
+  }
+
+  /**
+   * Create a SetValue from a serialized set value, as produced by toJSON()
+   * @param v Serialized set value
+   * @throws Error if the given object is not a valid serialized set value
+   */
+  static fromJSON(v: SerializedSetValue): SetValue<unknown> {
+    if (!isSerializedSetValue(v)) {
+      throw new Error(`Invalid serialized set value: ${JSON.stringify(v)}`);
+    }
+
+    const {func, operands} = v;
+    const arity = func === 'value' ? 1 : 2;
+
+    if (operands.length !== arity) {
+      throw new Error(`Invalid operands for serialized ${func} set value: ${JSON.stringify(operands)}`);
+    }
+
+    switch (func) {
+      case 'value':
+        return SetValue.value(deserializeOperand(operands[0]));
+      case 'add':
+        return SetValue.add(...operands.map(deserializePathOrValue) as [PathOrValue<number>, PathOrValue<number>]);
+      case 'subtract':
+        return SetValue.subtract(...operands.map(deserializePathOrValue) as [PathOrValue<number>, PathOrValue<number>]);
+      case 'append':
+        return SetValue.append(...operands.map(deserializePathOrValue) as [PathOrValue<unknown[]>, PathOrValue<unknown[]>]);
+      case 'ifNotExists': {
+        const path = deserializeOperand(operands[0]);
+
+        if (typeof path !== 'string' && !(path instanceof Path)) {
+          throw new Error(`Invalid path for serialized ifNotExists set value: ${JSON.stringify(operands[0])}`);
+        }
+        return SetValue.ifNotExists(path, deserializeOperand(operands[1]));
+      }
+    }
   }
 
   /**
    * Obtain a set expression which assigns a simple scalar value (SET #price = :val)
    * @param value
    */
-  static value<T>(value: T): SetValue<T> {
-    return new SetValue((key, builder) => builder.addOperand(value, 'value', 'set'));
+  static value<T>(value: OperandValue<T> | Expression): SetValue<T> {
+    return new SetValue('value', [value], (key, builder) => builder.addOperand(value, 'value', 'set'));
   }
 
   /**
@@ -128,7 +276,7 @@ export class SetValue<T = unknown> {
    * @see https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.SET.IncrementAndDecrement
    */
   static add(n1: PathOrValue<number>, n2: PathOrValue<number>): SetValue<number> {
-    return new SetValue((key, builder) => {
+    return new SetValue('add', [n1, n2], (key, builder) => {
       const operands = [n1, n2].map((n, i) =>
           buildSetOperand(key, n, builder, `add${i}`));
 
@@ -148,7 +296,7 @@ export class SetValue<T = unknown> {
    * @see https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.SET.IncrementAndDecrement
    */
   static subtract(n1: PathOrValue<number>, n2: PathOrValue<number>): SetValue<number> {
-    return new SetValue((key, builder) => {
+    return new SetValue('subtract', [n1, n2], (key, builder) => {
       const operands = [n1, n2].map((n, i) =>
           buildSetOperand(key, n, builder, `sub${i}`));
 
@@ -167,7 +315,7 @@ export class SetValue<T = unknown> {
    * @see https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.SET.UpdatingListElements
    */
   static append<T>(list1: PathOrValue<T[]>, list2: PathOrValue<T[]>): SetValue<T[]> {
-    return new SetValue((key, builder) => {
+    return new SetValue('append', [list1, list2], (key, builder) => {
       const operands = [list1, list2].map((list, i) =>
           buildSetOperand(key, list, builder, `append${i}`));
 
@@ -175,14 +323,38 @@ export class SetValue<T = unknown> {
     });
   }
 
+  /**
+   * Obtain a set expression which prepends elements to a list, creating the list if it doesn't exist
+   * (SET #mylist = list_append(:new_values, if_not_exists(#mylist, :empty)))
+   * Example:
+   * prependTo('mylist', [42, 43])
+   * @param path Attribute name or path operand of the list
+   * @param elements Elements to prepend
+   */
+  static prependTo<T>(path: string | Path<T[]>, elements: OperandValue<T[]>): SetValue<T[]> {
+    return SetValue.append(elements, SetValue.ifNotExists(path, [] as T[]));
+  }
+
+  /**
+   * Obtain a set expression which appends elements to a list, creating the list if it doesn't exist
+   * (SET #mylist = list_append(if_not_exists(#mylist, :empty), :new_values))
+   * Example:
+   * appendTo('mylist', [42, 43])
+   * @param path Attribute name or path operand of the list
+   * @param elements Elements to append
+   */
+  static appendTo<T>(path: string | Path<T[]>, elements: OperandValue<T[]>): SetValue<T[]> {
+    return SetValue.append(SetValue.ifNotExists(path, [] as T[]), elements);
+  }
+
   /**
    * Obtain a set expression for a if_not_exists function (SET #price = if_not_exists(#price, :100))
-   * @param path Attribute name
+   * @param path Attribute name or path operand
    * @param defaultValue Value to use if the attribute has no value
    * @see https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.UpdateExpressions.html#Expressions.UpdateExpressions.SET.PreventingAttributeOverwrites
    */
-  static ifNotExists<T>(path: string, defaultValue: T): SetValue<T> {
-    return new SetValue((key, builder) => {
+  static ifNotExists<T>(path: string | Path<T>, defaultValue: OperandValue<T>): SetValue<T> {
+    return new SetValue('ifNotExists', [path, defaultValue], (key, builder) => {
       const operands = [
         builder.addOperand(path, 'name'),
         builder.addOperand(defaultValue, 'value', 'ifnotexists')
@@ -193,13 +365,301 @@ export class SetValue<T = unknown> {
   }
 }
 
+/**
+ * Serialize update attributes into a JSON-compatible object where every value is a SerializedUpdateAction,
+ * i.e., literal values are serialized as SET actions. The result may be passed to deserializeUpdateAttributes().
+ * @param attributes Update attributes
+ */
+export function serializeUpdateAttributes<T>(attributes: UpdateAttributes<T>): Record<string, SerializedUpdateAction> {
+  return Object.fromEntries(Object.entries(attributes)
+      .filter(([, value]) => value !== undefined)
+      .map(([path, value]) => [path, UpdateAction.from(value).toJSON()]));
+}
+
+/**
+ * Deserialize update attributes serialized by serializeUpdateAttributes()
+ * @param serialized Serialized update attributes
+ * @throws Error if any value is not a valid serialized update action
+ */
+export function deserializeUpdateAttributes<T>(serialized: Record<string, SerializedUpdateAction>): UpdateAttributes<T> {
+  return Object.fromEntries(Object.entries(serialized)
+      .map(([path, value]) => [path, UpdateAction.fromJSON(value)])) as UpdateAttributes<T>;
+}
+
+function evaluateSetOperand(operand: unknown, item: unknown): unknown {
+  return operand instanceof SetValue ? evaluateSetValue(operand, item) :
+      typeof operand === 'string' ? resolveOperand(operand, 'name', item) :
+          resolveOperand(operand, 'value', item);
+}
+
+function evaluateSetValue(v: SetValue, item: unknown): unknown {
+  const {func, operands} = v;
+
+  if (func === 'value') {
+    return resolveOperand(operands[0], 'value', item);
+  }
+
+  if (func === 'ifNotExists') {
+    const value = resolveOperand(operands[0], 'name', item);
+
+    return value !== undefined ? value : resolveOperand(operands[1], 'value', item);
+  }
+
+  const [x, y] = operands.map(operand => evaluateSetOperand(operand, item));
+
+  if (func === 'append') {
+    if (!Array.isArray(x) || !Array.isArray(y)) {
+      throw new Error(`Incorrect operand types for list_append: ${typeof x}, ${typeof y}`);
+    }
+
+    return [...x, ...y];
+  }
+
+  if (typeof x !== 'number' || typeof y !== 'number') {
+    throw new Error(`Incorrect operand types for ${func}: ${typeof x}, ${typeof y}`);
+  }
+
+  return func === 'add' ? x + y : x - y;
+}
+
+/**
+ * Apply update attributes to an item, as DynamoDB would when executing an update expression built from the same
+ * attributes. All values are evaluated against the original item before the item is modified.
+ * Example:
+ *
+ * applyUpdate({a: 1, b: new Set([1])}, {a: UpdateAction.add(2), b: UpdateAction.delete(new Set([1]))}); // {a: 3}
+ * @param item Item to update; this object is not modified
+ * @param attributes Update attributes
+ * @return A copy of the item with the update applied
+ * @throws Error if an action cannot be applied, e.g. due to a path or operand having the wrong type
+ */
+export function applyUpdate<T>(item: T, attributes: UpdateAttributes<T>): T {
+  const updatedItem = cloneValue(item);
+  const removedPaths: string[] = [];
+
+  const actions = Object.entries(attributes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        const parsed = parseOperand(key, 'name');
+
+        if (!('path' in parsed) || parsed.size) {
+          throw new Error(`Invalid update path '${key}'`);
+        }
+
+        return {path: parsed.path, action: UpdateAction.from(value)};
+      })
+      .map(({path, action}) => {
+        const [operand] = action.operands;
+        const current = resolveOperand(path, 'name', item);
+
+        try {
+          switch (action.type) {
+            case 'SET':
+              return {path, value: evaluateSetValue(operand as SetValue, item)};
+            case 'REMOVE':
+              removedPaths.push(path);
+              return undefined;
+            case 'ADD':
+              if (typeof operand === 'number' && (current === undefined || typeof current === 'number')) {
+                return {path, value: (current ?? 0) + operand};
+              }
+              if (operand instanceof Set && (current === undefined || current instanceof Set)) {
+                return {path, value: new Set([...current ?? [], ...operand])};
+              }
+              throw new Error(`Incorrect operand type for ADD`);
+            case 'DELETE':
+              if (!(operand instanceof Set) || (current !== undefined && !(current instanceof Set))) {
+                throw new Error(`Incorrect operand type for DELETE`);
+              }
+              if (current !== undefined) {
+                const value = new Set([...current].filter(x => !operand.has(x)));
+
+                // Empty sets are not supported by DynamoDB, so the attribute is removed instead
+                if (!value.size) {
+                  removedPaths.push(path);
+                  return undefined;
+                }
+
+                return {path, value};
+              }
+              return undefined;
+          }
+        } catch (err) {
+          throw new Error(`Cannot apply ${action.type} action to '${path}': ${err.message}`);
+        }
+      });
+
+  for (const action of actions) {
+    if (action) {
+      setAttribute(updatedItem, action.path, cloneValue(action.value));
+    }
+  }
+
+  // Remove list elements from the end, so that removing one element doesn't shift the indexes of the others
+  for (const path of removedPaths.sort((a, b) => b.localeCompare(a, undefined, {numeric: true}))) {
+    removeAttribute(updatedItem, path);
+  }
+
+  return updatedItem;
+}
+
+interface PathAction {
+  key: string;
+  path: PathElement[];
+  action: UpdateAction<unknown>;
+}
+
+function formatPath(elements: PathElement[]): string {
+  return `#${elements.map((e, i) => typeof e === 'number' ? `[${e}]` : i ? `.${e}` : e).join('')}`;
+}
+
+function isPrefix(a: PathElement[], b: PathElement[]): boolean {
+  return a.length <= b.length && a.every((element, i) => element === b[i]);
+}
+
+/**
+ * Get the literal value set by a SET action, or undefined if the action is not a SET action with a literal value
+ * @param action
+ */
+function getLiteralSetValue(action: UpdateAction<unknown>): {value: unknown} | undefined {
+  const [v] = action.operands;
+
+  if (action.type !== 'SET' || !(v instanceof SetValue) || v.func !== 'value' || v.operands[0] instanceof Expression) {
+    return undefined;
+  }
+
+  const parsed = parseOperand(v.operands[0], 'value');
+
+  return 'value' in parsed ? parsed : undefined;
+}
+
+/**
+ * Merge two actions on overlapping paths into a single action, if possible
+ * @param a
+ * @param b
+ * @return The merged action, or undefined if the actions cannot be merged
+ */
+function mergePathActions(a: PathAction, b: PathAction): PathAction | undefined {
+  if (a.path.length === b.path.length) {
+    const [x, y] = [a.action.operands[0], b.action.operands[0]];
+
+    if (JSON.stringify(a.action) === JSON.stringify(b.action)) {
+      return a;
+    }
+    if (a.action.type === 'ADD' && b.action.type === 'ADD' && typeof x === 'number' && typeof y === 'number') {
+      return {...a, action: UpdateAction.add(x + y)};
+    }
+    if (a.action.type === b.action.type && ['ADD', 'DELETE'].includes(a.action.type) &&
+        x instanceof Set && y instanceof Set) {
+      const union = new Set([...x, ...y]);
+
+      return {...a, action: a.action.type === 'ADD' ? UpdateAction.add(union) : UpdateAction.delete(union)};
+    }
+
+    return undefined;
+  }
+
+  const [parent, child] = a.path.length < b.path.length ? [a, b] : [b, a];
+  const parentValue = getLiteralSetValue(parent.action);
+
+  // The child action may only be applied to the value set by the parent action if it doesn't refer to other attributes
+  if (!parentValue || (child.action.type === 'SET' && !getLiteralSetValue(child.action))) {
+    return undefined;
+  }
+
+  try {
+    const {value} = applyUpdate({value: parentValue.value}, {
+      [formatPath(['value', ...child.path.slice(parent.path.length)])]: child.action
+    });
+
+    return {...parent, action: UpdateAction.set(Operand.value(value))};
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * Merge update attributes with overlapping paths, which DynamoDB rejects, into equivalent update attributes without
+ * overlapping paths where possible. Identical actions on the same path are merged into one, ADD actions on the same
+ * path are merged into one ADD action, DELETE actions on the same path are merged into one DELETE action, and actions
+ * on nested paths are applied to the value of a SET action on a parent path.
+ * Example:
+ *
+ * mergeUpdatePaths({a: {b: 1}, 'a.c': 2, d: UpdateAction.add(1), '#d': UpdateAction.add(2)});
+ * // {a: UpdateAction.set(Operand.value({b: 1, c: 2})), d: UpdateAction.add(3)}
+ * @param attributes Update attributes
+ * @throws OverlappingPathsError if actions on overlapping paths cannot be merged
+ */
+export function mergeUpdatePaths<T>(attributes: UpdateAttributes<T>): UpdateAttributes<T> {
+  const actions = Object.entries(attributes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]): [string, UpdateAction<unknown>] => [key, UpdateAction.from(value)]);
+
+  return Object.fromEntries(mergeUpdateActions(actions)) as UpdateAttributes<T>;
+}
+
+/**
+ * Merge update actions on overlapping paths like mergeUpdatePaths(), given as a list of path-action pairs which may
+ * contain the same path more than once
+ * @param actions Path-action pairs
+ * @throws OverlappingPathsError if actions on overlapping paths cannot be merged
+ */
+export function mergeUpdateActions(actions: Array<[string, UpdateAction<unknown>]>): Array<[string, UpdateAction<unknown>]> {
+  const merged: PathAction[] = [];
+  const overlaps = (a: PathAction, b: PathAction) =>
+      a.path.length && b.path.length && (isPrefix(a.path, b.path) || isPrefix(b.path, a.path));
+
+  const add = (entry: PathAction): void => {
+    const i = merged.findIndex(other => overlaps(other, entry));
+
+    if (i < 0) {
+      merged.push(entry);
+      return;
+    }
+
+    const [other] = merged.splice(i, 1);
+    const result = mergePathActions(other, entry);
+
+    if (!result) {
+      throw new OverlappingPathsError([[other.key, entry.key]]);
+    }
+
+    // The merged action may overlap other actions
+    add(result);
+  };
+
+  for (const [key, action] of actions) {
+    const parsed = parseOperand(key, 'name');
+
+    add({key, path: 'path' in parsed && !parsed.size ? parsePath(parsed.path) : [], action});
+  }
+
+  return merged.map(({key, action}) => [key, action]);
+}
+
 /**
  * @deprecated Use buildUpdateParams
  * @param attributes
  * @param params
+ * @param [options]
+ * @throws ExpressionValidationError if strict mode is enabled and the expression violates DynamoDB limits
  */
-export function buildUpdateExpression<T>(attributes: UpdateAttributes<T>, params: Partial<Params>): string | undefined {
-  return new UpdateExpressionBuilder(params).build(attributes) || undefined;
+export function buildUpdateExpression<T>(
+    attributes: UpdateAttributes<T>,
+    params: Partial<Params>,
+    options?: ExpressionBuilderOptions): string | undefined {
+  const merged = options?.mergePaths ? mergeUpdatePaths(attributes) : attributes;
+  const expression = new UpdateExpressionBuilder(params, options).build(merged) || undefined;
+
+  if (expression && options?.strict) {
+    const violations = validateUpdateExpression(expression, merged);
+
+    if (violations.length) {
+      throw new ExpressionValidationError(violations);
+    }
+  }
+
+  return expression;
 }
 
 /**
@@ -208,11 +668,12 @@ export function buildUpdateExpression<T>(attributes: UpdateAttributes<T>, params
  * @param [params] Optional other params such as TableName, additional ExpressionAttributeNames etc.
  *                 This object will be merged with the produced UpdateExpression and associated
  *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders
  */
 export function buildUpdateParams<T, P extends Record<string, unknown>>(
-    {attributes, params = {} as P}: {attributes: UpdateAttributes<T>; params?: P}
+    {attributes, params = {} as P, options}: {attributes: UpdateAttributes<T>; params?: P; options?: ExpressionBuilderOptions}
 ): UpdateParams & P {
-  const expression = buildUpdateExpression(attributes, params);
+  const expression = buildUpdateExpression(attributes, params, options);
 
   if (!expression) {
     throw new Error(`Cannot build update expression for empty attributes`);
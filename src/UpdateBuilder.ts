@@ -0,0 +1,122 @@
+import {buildConditionParams, ConditionParams, ConditionSet} from './Condition';
+import {AttributeOf, ConditionBuilder} from './ConditionBuilder';
+import {Expression} from './Expression';
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+import {ExpressionValidationError, validateUpdateExpression} from './ExpressionValidator';
+import {OperandValue} from './Operand';
+import {mergeUpdateActions, SetValue, UpdateAction, UpdateParams} from './UpdateAction';
+import {UpdateExpressionBuilder} from './UpdateExpressionBuilder';
+
+/**
+ * A fluent builder for update params. Unlike UpdateAttributes, actions are built in the order in which they're added,
+ * and several actions may be added for paths of the same attribute.
+ * Example:
+ *
+ * new UpdateBuilder<Item>()
+ *     .set('list[0]', 'foo')
+ *     .remove('list[3]')
+ *     .add('tags', new Set(['bar']))
+ *     .set('tagCount', SetValue.add('tagCount', 1))
+ *     .when({version: 3})
+ *     .build({params: {TableName: 'items', Key: {id: '1'}}});
+ * // UpdateExpression: 'SET #list[0] = :val_set, #tagCount = #tagCount + :val_add1 REMOVE #list[3] ADD #tags :val_add'
+ * // ConditionExpression: '#version = :cond_'
+ */
+export class UpdateBuilder<T = Record<string, unknown>> {
+  private readonly actions: Array<[string, UpdateAction<unknown>]> = [];
+  private conditions?: ConditionSet<T>;
+
+  /**
+   * Add a SET action
+   * @param path Attribute path
+   * @param value A literal value, a typed operand, a raw expression or a SetValue function
+   */
+  set<K extends string>(path: K, value: OperandValue<AttributeOf<T, K>> | Expression | SetValue<AttributeOf<T, K>>): this {
+    return this.action(path, UpdateAction.set(value));
+  }
+
+  /**
+   * Add a REMOVE action
+   * @param path Attribute path
+   */
+  remove(path: string): this {
+    return this.action(path, UpdateAction.remove());
+  }
+
+  /**
+   * Add an ADD action, adding a number to a number attribute or elements to a set attribute
+   * @param path Attribute path
+   * @param value Number or set
+   */
+  add(path: string, value: number | Set<unknown>): this {
+    return this.action(path, UpdateAction.add(value));
+  }
+
+  /**
+   * Add a DELETE action, deleting elements from a set attribute
+   * @param path Attribute path
+   * @param value Set
+   */
+  delete(path: string, value: Set<unknown>): this {
+    return this.action(path, UpdateAction.delete(value));
+  }
+
+  /**
+   * Add an update action
+   * @param path Attribute path
+   * @param action Update action
+   */
+  action(path: string, action: UpdateAction<unknown>): this {
+    this.actions.push([path, action]);
+    return this;
+  }
+
+  /**
+   * Add conditions which must be fulfilled for the update to succeed. Conditions added by multiple calls are combined
+   * with AND.
+   * @param conditions Condition set or condition builder
+   */
+  when(conditions: ConditionSet<T> | ConditionBuilder<T>): this {
+    const conditionSet = conditions instanceof ConditionBuilder ? conditions.toConditionSet() : conditions;
+
+    this.conditions = this.conditions ? ConditionSet.and(this.conditions, conditionSet) : conditionSet;
+    return this;
+  }
+
+  /**
+   * Build update params to be used for an update() call to the DynamoDB client
+   * @param [params] Optional other params such as TableName, Key, additional ExpressionAttributeNames etc.
+   *                 This object will be merged with the produced UpdateExpression, ConditionExpression and associated
+   *                 ExpressionAttributeNames/Values.
+   * @param [options] Options such as the naming strategy for value placeholders
+   * @throws OverlappingPathsError if any paths overlap, unless the mergePaths option is enabled and the actions can be
+   *         merged
+   * @throws ExpressionValidationError if strict mode is enabled and an expression violates DynamoDB limits
+   */
+  build<P extends Record<string, unknown>>(
+      {params = {} as P, options}: {params?: P; options?: ExpressionBuilderOptions} = {}
+  ): UpdateParams & Partial<ConditionParams> & P {
+    const actions = options?.mergePaths ? mergeUpdateActions(this.actions) : this.actions;
+    const expression = new UpdateExpressionBuilder(params, options).buildActions(actions);
+
+    if (!expression) {
+      throw new Error(`Cannot build update expression without actions`);
+    }
+
+    if (options?.strict) {
+      const violations = validateUpdateExpression(expression, Object.fromEntries(actions));
+
+      if (violations.length) {
+        throw new ExpressionValidationError(violations);
+      }
+    }
+
+    Object.assign(params, {UpdateExpression: expression});
+
+    if (this.conditions) {
+      buildConditionParams({conditions: this.conditions, params, options});
+    }
+
+    return params as UpdateParams & Partial<ConditionParams> & P;
+  }
+}
@@ -1,4 +1,5 @@
 import {ExpressionBuilder} from './ExpressionBuilder';
+import {findOverlappingPaths, OverlappingPathsError} from './ExpressionValidator';
 import {UpdateAction, UpdateAttributes} from './UpdateAction';
 
 export type ActionType = 'SET' | 'REMOVE' | 'ADD' | 'DELETE';
@@ -7,17 +8,32 @@ export class UpdateExpressionBuilder<T extends Record<string, any>> extends Expr
   private readonly actions = new Map<ActionType, string[]>();
 
   build(attributes: UpdateAttributes<T>): string | undefined {
-    for (const [path, value] of Object.entries(attributes)) {
-      if (value !== undefined) {
-        const action = UpdateAction.from(value);
-        const {type, expression} = action.build(path, this);
+    return this.buildActions(Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([path, value]): [string, UpdateAction<unknown>] => [path, UpdateAction.from(value)]));
+  }
+
+  /**
+   * Build an update expression from a list of path-action pairs, in the given order
+   * @param actions Path-action pairs
+   * @throws OverlappingPathsError if any paths overlap
+   */
+  buildActions(actions: Array<[string, UpdateAction<unknown>]>): string | undefined {
+    const overlapping = findOverlappingPaths(actions.map(([path]) => path));
+
+    // DynamoDB rejects overlapping paths with a less specific error
+    if (overlapping.length) {
+      throw new OverlappingPathsError(overlapping);
+    }
+
+    for (const [path, action] of actions) {
+      const {type, expression} = action.build(path, this);
 
-        this.addAction(type, expression);
-      }
+      this.addAction(type, expression);
     }
 
     return [...this.actions.entries()]
-        .map(([type, actions]) => `${type} ${actions.join(', ')}`)
+        .map(([type, expressions]) => `${type} ${expressions.join(', ')}`)
         .join(' ') || undefined;
   }
 
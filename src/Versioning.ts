@@ -0,0 +1,51 @@
+import {buildConditionParams, Condition, ConditionParams, ConditionSet} from './Condition';
+import {ExpressionBuilderOptions} from './ExpressionBuilder';
+import {findOverlappingPaths} from './ExpressionValidator';
+import {buildUpdateParams, UpdateAction, UpdateAttributes, UpdateParams} from './UpdateAction';
+
+const DEFAULT_VERSION_ATTRIBUTE = 'version';
+
+/**
+ * Build params for an update() call to the DynamoDB client using optimistic locking, i.e., incrementing a version
+ * attribute and requiring it to equal the expected version. If no version is expected, the item is created, and
+ * the version attribute is then required to not exist.
+ * Example:
+ *
+ * buildVersionedUpdateParams({attributes: {name: 'foo'}, expectedVersion: 3});
+ * // UpdateExpression: 'SET #name = :val_set ADD #version :val_add',
+ * // ConditionExpression: '#version = :cond_'
+ * @param attributes Update attributes, which may not contain the version attribute or any path overlapping it
+ * @param [expectedVersion] Expected current version of the item, or undefined if the item is created
+ * @param [versionAttribute] Name of the version attribute; 'version' by default
+ * @param [conditions] Optional other conditions, which must also be fulfilled
+ * @param [params] Optional other params such as TableName, Key, additional ExpressionAttributeNames etc.
+ *                 This object will be merged with the produced UpdateExpression, ConditionExpression and associated
+ *                 ExpressionAttributeNames/Values.
+ * @param [options] Options such as the naming strategy for value placeholders
+ */
+export function buildVersionedUpdateParams<T, P extends Record<string, unknown>>(
+    {attributes, expectedVersion, versionAttribute = DEFAULT_VERSION_ATTRIBUTE, conditions, params = {} as P, options}: {
+      attributes: UpdateAttributes<T>;
+      expectedVersion?: number;
+      versionAttribute?: string;
+      conditions?: ConditionSet<T>;
+      params?: P;
+      options?: ExpressionBuilderOptions;
+    }
+): UpdateParams & ConditionParams & P {
+  if (Object.keys(attributes).some(key => findOverlappingPaths([key, versionAttribute]).length)) {
+    throw new Error(`Update attributes may not contain the version attribute ${versionAttribute}`);
+  }
+
+  const versionCondition = {
+    [versionAttribute]: expectedVersion === undefined ? Condition.attributeNotExists() : Condition.eq(expectedVersion)
+  } as ConditionSet<T>;
+
+  buildUpdateParams({attributes: {...attributes, [versionAttribute]: UpdateAction.add(1)}, params, options});
+
+  return buildConditionParams({
+    conditions: conditions ? ConditionSet.and(conditions, versionCondition) : versionCondition,
+    params,
+    options
+  }) as UpdateParams & ConditionParams & P;
+}
@@ -2,4 +2,25 @@ export * from './Condition';
 export {CompositeCondition} from './CompositeCondition';
 export * from './UpdateAction';
 export * from './Operand';
-
+export {expr, path, Expression, SerializedExpression} from './Expression';
+export * from './Projection';
+export * from './ExpressionParser';
+export {ExpressionBuilderOptions, NamingStrategy, PlaceholderNamer} from './ExpressionBuilder';
+export * from './ExpressionValidator';
+export * from './Transaction';
+export {Key} from './Types';
+export * from './AttributeValue';
+export * from './PartiQL';
+export * from './KeySchema';
+export * from './Table';
+export * from './Versioning';
+export * from './ItemParams';
+export * from './Explain';
+export * from './Diff';
+export * from './ConditionBuilder';
+export * from './UpdateBuilder';
+export * from './ListUpdate';
+export {ClientResult} from './Client';
+export * from './Pagination';
+export * from './Batch';
+export * from './MemoryTable';
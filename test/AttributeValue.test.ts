@@ -0,0 +1,95 @@
+import {marshall, marshallItem} from '../src/AttributeValue';
+import {buildConditionParams, Condition} from '../src/Condition';
+import {buildDeleteParams, buildPutParams} from '../src/ItemParams';
+import {buildTransactWriteParams} from '../src/Transaction';
+import {buildUpdateParams, UpdateAction} from '../src/UpdateAction';
+
+describe('AttributeValue tests', () => {
+  it('Should marshall scalar values', () => {
+    expect(marshall('foo')).toEqual({S: 'foo'});
+    expect(marshall(42.5)).toEqual({N: '42.5'});
+    expect(marshall(true)).toEqual({BOOL: true});
+    expect(marshall(null)).toEqual({NULL: true});
+    expect(marshall(Buffer.from('foo'))).toEqual({B: Buffer.from('foo')});
+  });
+
+  it('Should marshall sets', () => {
+    expect(marshall(new Set(['a', 'b']))).toEqual({SS: ['a', 'b']});
+    expect(marshall(new Set([1, 2]))).toEqual({NS: ['1', '2']});
+    expect(marshall(new Set([Buffer.from('a')]))).toEqual({BS: [Buffer.from('a')]});
+    expect(() => marshall(new Set())).toThrow();
+    expect(() => marshall(new Set([1, 'a']))).toThrow();
+  });
+
+  it('Should marshall lists and maps', () => {
+    expect(marshall({a: [1, 'x', {b: null}], c: undefined})).toEqual({
+      M: {a: {L: [{N: '1'}, {S: 'x'}, {M: {b: {NULL: true}}}]}}
+    });
+  });
+
+  it('Should marshall items', () => {
+    expect(marshallItem({id: '1', tags: new Set(['x']), x: undefined})).toEqual({id: {S: '1'}, tags: {SS: ['x']}});
+  });
+
+  it('Should reject unsupported values', () => {
+    expect(() => marshall(NaN)).toThrow();
+    expect(() => marshall(new Date())).toThrow();
+  });
+
+  it('Should build params with AttributeValue values', () => {
+    expect(buildUpdateParams({
+      attributes: {a: 'foo', b: UpdateAction.add(new Set([1, 2]))},
+      params: buildConditionParams({
+        conditions: {c: Condition.in([1, 'foo'])},
+        options: {valueFormat: 'attributeValue'}
+      }),
+      options: {valueFormat: 'attributeValue'}
+    })).toEqual({
+      ConditionExpression: '#c IN (:cond_in0, :cond_in1)',
+      UpdateExpression: 'SET #a = :cond_in1 ADD #b :val_add',
+      ExpressionAttributeNames: {'#a': 'a', '#b': 'b', '#c': 'c'},
+      ExpressionAttributeValues: {
+        ':cond_in0': {N: '1'},
+        ':cond_in1': {S: 'foo'},
+        ':val_add': {NS: ['1', '2']}
+      }
+    });
+  });
+
+  it('Should build put and delete params with AttributeValue items and keys', () => {
+    const options = {valueFormat: 'attributeValue' as const};
+
+    expect(buildPutParams({tableName: 't', item: {id: '1', n: 2}, keyAttributes: ['id'], mode: 'createOnly', options}))
+        .toEqual({
+          TableName: 't',
+          Item: {id: {S: '1'}, n: {N: '2'}},
+          ConditionExpression: 'attribute_not_exists(#id)',
+          ExpressionAttributeNames: {'#id': 'id'}
+        });
+    expect(buildDeleteParams({tableName: 't', key: {id: '1'}, conditions: {n: 2}, options})).toEqual({
+      TableName: 't',
+      Key: {id: {S: '1'}},
+      ConditionExpression: '#n = :cond_',
+      ExpressionAttributeNames: {'#n': 'n'},
+      ExpressionAttributeValues: {':cond_': {N: '2'}}
+    });
+  });
+
+  it('Should build transaction params with AttributeValue items and keys', () => {
+    const {TransactItems} = buildTransactWriteParams({
+      operations: [
+        {type: 'Put', tableName: 't', item: {id: '1', n: 2}, keyAttributes: ['id']},
+        {type: 'Update', tableName: 't', key: {id: '2'}, attributes: {n: 3}},
+        {type: 'Delete', tableName: 't', key: {id: '3'}},
+        {type: 'ConditionCheck', tableName: 't', key: {id: '4'}, conditions: {n: 4}},
+      ],
+      options: {valueFormat: 'attributeValue'}
+    });
+
+    expect(TransactItems.map(item => {
+      const [params] = Object.values(item) as Array<Record<string, unknown>>;
+
+      return params.Item ?? params.Key;
+    })).toEqual([{id: {S: '1'}, n: {N: '2'}}, {id: {S: '2'}}, {id: {S: '3'}}, {id: {S: '4'}}]);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  batchGet,
+  BatchGetParams,
+  batchWrite,
+  BatchWriteOperation,
+  BatchWriteParams,
+  KeysAndAttributes,
+  UnprocessedItemsError,
+  UnprocessedKeysError,
+  WriteRequest
+} from '../src/Batch';
+
+type Item = {id: number; name?: string};
+
+const retry = {baseDelay: 1, maxDelay: 2};
+
+/**
+ * A fake client which leaves the last `unprocessed` requests of each call unprocessed, for the first `failures` calls
+ */
+class FakeClient {
+  readonly writes: BatchWriteParams[] = [];
+  readonly gets: BatchGetParams[] = [];
+  private calls = 0;
+
+  constructor(private readonly failures = 0, private readonly unprocessed = 1) {
+  }
+
+  private shouldFail() {
+    return this.calls++ < this.failures;
+  }
+
+  batchWrite(params: BatchWriteParams) {
+    this.writes.push(params);
+
+    const fail = this.shouldFail();
+    const UnprocessedItems: Record<string, WriteRequest[]> = fail ?
+        Object.fromEntries(Object.entries(params.RequestItems)
+            .map(([tableName, requests]) => [tableName, requests.slice(-this.unprocessed)])) :
+        {};
+
+    return Promise.resolve({UnprocessedItems});
+  }
+
+  batchGet(params: BatchGetParams) {
+    this.gets.push(params);
+
+    const fail = this.shouldFail();
+    const Responses: Record<string, Item[]> = {};
+    const UnprocessedKeys: Record<string, KeysAndAttributes> = {};
+
+    for (const [tableName, {Keys, ...rest}] of Object.entries(params.RequestItems)) {
+      const processed = fail ? Keys.slice(0, -this.unprocessed) : Keys;
+
+      Responses[tableName] = processed.map(key => ({id: key.id as number, name: `${tableName}${key.id}`}));
+      if (fail) {
+        UnprocessedKeys[tableName] = {...rest, Keys: Keys.slice(-this.unprocessed)};
+      }
+    }
+
+    return {promise: () => Promise.resolve({Responses, UnprocessedKeys})};
+  }
+}
+
+const range = (n: number) => Array.from({length: n}, (_, i) => i);
+
+describe('Batch write tests', () => {
+  it('Should write items in chunks of 25', async () => {
+    const client = new FakeClient();
+
+    await batchWrite(client, {
+      operations: range(30).map((id): BatchWriteOperation<Item> =>
+          id % 2 ? {type: 'Put', tableName: 'a', item: {id}, keyAttributes: ['id']} : {type: 'Delete', tableName: 'b', key: {id}})
+    });
+
+    expect(client.writes).toHaveLength(2);
+    expect(client.writes[0].RequestItems.a).toHaveLength(12);
+    expect(client.writes[0].RequestItems.b).toHaveLength(13);
+    expect(client.writes[0].RequestItems.a[0]).toEqual({PutRequest: {Item: {id: 1}}});
+    expect(client.writes[0].RequestItems.b[0]).toEqual({DeleteRequest: {Key: {id: 0}}});
+    expect(client.writes[1].RequestItems.a).toHaveLength(3);
+    expect(client.writes[1].RequestItems.b).toHaveLength(2);
+  });
+
+  it('Should only perform the last operation on each item', async () => {
+    const client = new FakeClient();
+
+    await batchWrite(client, {
+      operations: [
+        {type: 'Put', tableName: 'a', item: {id: 1, name: 'x'}, keyAttributes: ['id']},
+        {type: 'Put', tableName: 'a', item: {id: 2}, keyAttributes: ['id']},
+        {type: 'Put', tableName: 'b', item: {id: 1}, keyAttributes: ['id']},
+        {type: 'Delete', tableName: 'a', key: {id: 1}},
+      ]
+    });
+
+    expect(client.writes).toEqual([{
+      RequestItems: {
+        a: [{PutRequest: {Item: {id: 2}}}, {DeleteRequest: {Key: {id: 1}}}],
+        b: [{PutRequest: {Item: {id: 1}}}],
+      }
+    }]);
+  });
+
+  it('Should retry unprocessed items', async () => {
+    const client = new FakeClient(2, 2);
+
+    await batchWrite(client, {operations: range(3).map(id => ({type: 'Delete', tableName: 'a', key: {id}})), retry});
+
+    expect(client.writes.map(params => params.RequestItems.a.length)).toEqual([3, 2, 2]);
+  });
+
+  it('Should throw remaining items after the maximum number of attempts', async () => {
+    const client = new FakeClient(Infinity);
+    const operations = range(30).map((id): BatchWriteOperation => ({type: 'Delete', tableName: 'a', key: {id}}));
+
+    const promise = batchWrite(client, {operations, retry: {...retry, maxAttempts: 3}});
+
+    await expect(promise).rejects.toThrow(UnprocessedItemsError);
+    await expect(promise).rejects.toHaveProperty('unprocessedItems',
+        {a: range(6).map(i => ({DeleteRequest: {Key: {id: i + 24}}}))});
+    expect(client.writes).toHaveLength(3);
+  });
+
+  it('Should reject put items without key attributes', async () => {
+    await expect(batchWrite(new FakeClient(), {
+      operations: [{type: 'Put', tableName: 'a', item: {name: 'x'}, keyAttributes: ['id']}]
+    })).rejects.toThrow();
+  });
+});
+
+describe('Batch get tests', () => {
+  it('Should get items in chunks of 100 with unique keys', async () => {
+    const client = new FakeClient();
+    const result = await batchGet<Item>(client, {
+      tables: {
+        a: {keys: range(120).map(id => ({id: id % 110}))},
+        b: {keys: [{id: 1}], attributes: ['id', 'name'], consistentRead: true},
+        c: {keys: []},
+      }
+    });
+
+    expect(client.gets.map(params => params.RequestItems.a.Keys.length)).toEqual([100, 10]);
+    expect(client.gets[1].RequestItems.b).toEqual({
+      Keys: [{id: 1}],
+      ConsistentRead: true,
+      ProjectionExpression: '#id, #name',
+      ExpressionAttributeNames: {'#id': 'id', '#name': 'name'},
+    });
+    expect(result.a).toHaveLength(110);
+    expect(result.b).toEqual([{id: 1, name: 'b1'}]);
+    expect(result.c).toEqual([]);
+  });
+
+  it('Should retry unprocessed keys', async () => {
+    const client = new FakeClient(1, 2);
+    const result = await batchGet<Item>(client, {tables: {a: {keys: range(3).map(id => ({id}))}}, retry});
+
+    expect(client.gets.map(params => params.RequestItems.a.Keys)).toEqual([
+      [{id: 0}, {id: 1}, {id: 2}],
+      [{id: 1}, {id: 2}],
+    ]);
+    expect(result.a.map(item => item.id)).toEqual([0, 1, 2]);
+  });
+
+  it('Should throw remaining keys after the maximum number of attempts', async () => {
+    const client = new FakeClient(Infinity);
+
+    const promise = batchGet<Item>(client, {
+      tables: {a: {keys: range(150).map(id => ({id})), attributes: ['id']}},
+      retry: {...retry, maxAttempts: 2}
+    });
+
+    await expect(promise).rejects.toThrow(UnprocessedKeysError);
+    await expect(promise).rejects.toHaveProperty('unprocessedKeys', {
+      a: {
+        Keys: [{id: 99}, ...range(50).map(i => ({id: i + 100}))],
+        ProjectionExpression: '#id',
+        ExpressionAttributeNames: {'#id': 'id'}
+      }
+    });
+    expect(client.gets).toHaveLength(2);
+  });
+});
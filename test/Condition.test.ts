@@ -217,3 +217,93 @@ describe('Condition tests', () => {
     [c1, c2].forEach(foo => matcher({foo}));
   });
 });
+
+describe('Condition set evaluation tests', () => {
+  const item: Record<string, unknown> = {
+    a: 42,
+    b: 'foo',
+    c: {d: [1, {e: 'bar'}]},
+    f: new Set([1, 2, 3]),
+    g: 43
+  };
+
+  it('Should evaluate an attribute map', () => {
+    expect(ConditionSet.evaluate({a: 42, b: Condition.beginsWith('f')}, item)).toBe(true);
+    expect(ConditionSet.evaluate({a: 42, b: Condition.beginsWith('g')}, item)).toBe(false);
+  });
+
+  it('Should evaluate nested paths', () => {
+    expect(ConditionSet.evaluate({'c.d[1].e': 'bar', 'c.d[0]': Condition.lt(2)}, item)).toBe(true);
+    expect(ConditionSet.evaluate({'#c.d[2]': Condition.attributeNotExists()}, item)).toBe(true);
+    expect(ConditionSet.evaluate({'x.y': Condition.attributeExists()}, item)).toBe(false);
+  });
+
+  it('Should evaluate size and attribute operands', () => {
+    expect(ConditionSet.evaluate({[Operand.size('f')]: 3, [Operand.size('b')]: Condition.lt(4)}, item)).toBe(true);
+    expect(ConditionSet.evaluate({a: Condition.lt(Operand.get('g'))}, item)).toBe(true);
+    expect(ConditionSet.evaluate({g: Condition.between<unknown>(Operand.get('a'), 50)}, item)).toBe(true);
+    expect(ConditionSet.evaluate({a: Condition.in<unknown>([Operand.get('g'), 1])}, item)).toBe(false);
+  });
+
+  it('Should evaluate escaped values', () => {
+    expect(ConditionSet.evaluate({x: ':#foo'}, {x: '#foo'})).toBe(true);
+  });
+
+  it('Should evaluate composite conditions', () => {
+    expect(ConditionSet.evaluate(ConditionSet.or({a: 1}, {b: 'foo'}), item)).toBe(true);
+    expect(ConditionSet.evaluate(ConditionSet.and({a: 42}, ConditionSet.or({b: 'bar'}, {g: 1})), item)).toBe(false);
+    expect(ConditionSet.evaluate({a: Condition.not(Condition.or(1, 2)), f: Condition.contains(new Set([3]))}, item))
+        .toBe(true);
+  });
+
+  it('Should evaluate conditions on missing attributes as false', () => {
+    expect(ConditionSet.evaluate({x: Condition.beginsWith('f')}, item)).toBe(false);
+    expect(ConditionSet.evaluate({x: Condition.contains('f')}, item)).toBe(false);
+    expect(ConditionSet.evaluate({x: Condition.gt(1)}, item)).toBe(false);
+    expect(ConditionSet.evaluate({x: Condition.between(1, 50)}, item)).toBe(false);
+    expect(ConditionSet.evaluate({x: 1}, item)).toBe(false);
+    expect(ConditionSet.evaluate({x: Condition.neq(1)}, item)).toBe(false);
+  });
+
+  it('Should evaluate equality between missing attributes as false', () => {
+    expect(ConditionSet.evaluate({a: Condition.eq(Operand.get('x'))}, {})).toBe(false);
+    expect(ConditionSet.evaluate({a: Condition.neq(Operand.get('x'))}, {})).toBe(false);
+    expect(ConditionSet.evaluate({a: Condition.neq(Operand.get('x'))}, {a: 1} as Record<string, unknown>)).toBe(false);
+    expect(ConditionSet.evaluate({a: Condition.in([Operand.get('x')])}, {})).toBe(false);
+  });
+
+  it('Should evaluate conditions on attributes of other types as false', () => {
+    expect(ConditionSet.evaluate({a: Condition.beginsWith('4')}, item)).toBe(false);
+    expect(ConditionSet.evaluate({a: Condition.contains('4')}, item)).toBe(false);
+    expect(ConditionSet.evaluate({a: Condition.ge('4')}, item)).toBe(false);
+    expect(ConditionSet.evaluate({b: Condition.lt(5)}, item)).toBe(false);
+    expect(ConditionSet.evaluate({a: '42'}, item)).toBe(false);
+  });
+
+  it('Should evaluate contains on strings, lists and sets', () => {
+    const tags: Record<string, unknown> = {s: 'foobar', l: ['foo', 'bar', {x: 1}], ss: new Set(['foo', 'bar'])};
+
+    expect(ConditionSet.evaluate({s: Condition.contains('oba')}, tags)).toBe(true);
+    expect(ConditionSet.evaluate({l: Condition.contains('bar')}, tags)).toBe(true);
+    expect(ConditionSet.evaluate({l: Condition.contains('oo')}, tags)).toBe(false);
+    expect(ConditionSet.evaluate({l: Condition.contains<any>({x: 1})}, tags)).toBe(true);
+    expect(ConditionSet.evaluate({ss: Condition.contains('foo')}, tags)).toBe(true);
+    expect(ConditionSet.evaluate({ss: Condition.contains('fo')}, tags)).toBe(false);
+    expect(ConditionSet.evaluate({ss: Condition.contains(new Set(['baz', 'bar']))}, tags)).toBe(true);
+  });
+
+  it('Should compare lists and maps by value', () => {
+    const lists: Record<string, unknown> = {l: [1, {x: 'a'}], m: {x: [1, 2], y: 'b'}};
+
+    expect(ConditionSet.evaluate({l: [1, {x: 'a'}], m: {y: 'b', x: [1, 2]}}, lists)).toBe(true);
+    expect(ConditionSet.evaluate({l: Condition.neq([1, {x: 'a'}])}, lists)).toBe(false);
+    expect(ConditionSet.evaluate({m: Condition.neq({x: [2, 1], y: 'b'})}, lists)).toBe(true);
+    expect(ConditionSet.evaluate({l: Condition.in<unknown>([[1], [1, {x: 'a'}]])}, lists)).toBe(true);
+  });
+
+  it('Should evaluate empty conditions as true', () => {
+    expect(ConditionSet.evaluate({}, item)).toBe(true);
+    expect(ConditionSet.evaluate(ConditionSet.or(ConditionSet.and(), {a: 1}), item)).toBe(false);
+    expect(ConditionSet.evaluate(ConditionSet.or(ConditionSet.and(), {}), item)).toBe(true);
+  });
+});
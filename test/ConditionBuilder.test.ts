@@ -0,0 +1,64 @@
+import {Condition, ConditionSet} from '../src/Condition';
+import {ConditionBuilder} from '../src/ConditionBuilder';
+import {Operand} from '../src/Operand';
+
+interface Item {
+  id: string;
+  count: number;
+  status: string;
+}
+
+describe('Condition builder tests', () => {
+  it('Should combine conditions on different paths into a single object', () => {
+    const conditions = new ConditionBuilder<Item>()
+        .eq('id', '1')
+        .gt('count', Operand.path<number>('min'))
+        .toConditionSet();
+
+    expect(JSON.stringify(conditions)).toEqual(JSON.stringify({id: Condition.eq('1'), count: Condition.gt(Operand.path('min'))}));
+  });
+
+  it('Should build condition params with multiple conditions on the same path', () => {
+    expect(new ConditionBuilder<Item>()
+        .attributeExists('id')
+        .gt('count', 0)
+        .lt('count', 10)
+        .or(b => b.eq('status', 'active'), b => b.beginsWith('status', 'pending'))
+        .build({params: {TableName: 'items'}})).toEqual({
+      TableName: 'items',
+      ConditionExpression: '(attribute_exists(#id) AND #count > :cond_ AND #count < :cond_1 AND ' +
+          '(#status = :cond_2 OR begins_with(#status, :cond_begins_with_arg0)))',
+      ExpressionAttributeNames: {'#id': 'id', '#count': 'count', '#status': 'status'},
+      ExpressionAttributeValues: {':cond_': 0, ':cond_1': 10, ':cond_2': 'active', ':cond_begins_with_arg0': 'pending'},
+    });
+  });
+
+  it('Should build all condition types', () => {
+    expect(new ConditionBuilder()
+        .neq('a', 1)
+        .le('b', 2)
+        .ge('c', 3)
+        .between('d', 4, 5)
+        .in('e', [6, 7])
+        .contains('f', 'x')
+        .attributeNotExists('g')
+        .attributeType('h', 'S')
+        .where('i', Condition.not(Condition.eq(8)))
+        .and(ConditionSet.or({j: 9}, {k: 10}))
+        .build().ConditionExpression).toEqual(
+        '(#a <> :cond_ AND #b <= :cond_1 AND #c >= :cond_2 AND #d BETWEEN :cond_between0 AND :cond_between1 AND ' +
+        '#e IN (:cond_in0, :cond_in1) AND contains(#f, :cond_contains_arg0) AND attribute_not_exists(#g) AND ' +
+        'attribute_type(#h, :cond_attribute_type_arg0) AND NOT (#i = :cond_3) AND (#j = :cond_4 OR #k = :cond_5))');
+  });
+
+  it('Should return empty conditions if no conditions are added', () => {
+    expect(new ConditionBuilder().toConditionSet()).toEqual({});
+    expect(() => new ConditionBuilder().build()).toThrow();
+  });
+
+  it('Should type check values', () => {
+    // @ts-expect-error
+    new ConditionBuilder<Item>().eq('count', 'foo');
+    new ConditionBuilder<Item>().eq('other', 'foo');
+  });
+});
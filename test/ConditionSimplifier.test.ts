@@ -0,0 +1,63 @@
+import {CompositeCondition} from '../src/CompositeCondition';
+import {buildConditionParams, Condition, ConditionSet} from '../src/Condition';
+import {Operand} from '../src/Operand';
+
+function build(conditions: ConditionSet<any>) {
+  return buildConditionParams({conditions}).ConditionExpression;
+}
+
+describe('Condition simplification tests', () => {
+  it('Should flatten nested AND/OR conditions and remove duplicates', () => {
+    const c = Condition.and(Condition.and(Condition.gt(1), Condition.lt(5)), Condition.and(Condition.gt(1), Condition.neq(3)));
+
+    expect(build({a: c})).toEqual('((#a > :cond_ AND #a < :cond_1) AND (#a > :cond_ AND #a <> :cond_2))');
+    expect(build({a: c.simplify()})).toEqual('(#a > :cond_ AND #a < :cond_1 AND #a <> :cond_2)');
+  });
+
+  it('Should fold double negations', () => {
+    expect(build({a: Condition.not(Condition.not(Condition.not(Condition.not(Condition.gt(1))))).simplify()}))
+        .toEqual('#a > :cond_');
+    expect(build({a: Condition.not(Condition.not(Condition.not(5))).simplify()})).toEqual('NOT (#a = :cond_)');
+  });
+
+  it('Should merge equality alternatives into IN', () => {
+    expect(build({a: Condition.or(1, Condition.or(2, Condition.in([3, 1])), Condition.gt(10)).simplify()}))
+        .toEqual('(#a IN (:cond_in0, :cond_in1, :cond_in2) OR #a > :cond_)');
+    expect(build({a: Condition.or(1, 1).simplify()})).toEqual('#a = :cond_');
+    expect(build({a: Condition.or<unknown>(1, Operand.get('b')).simplify()})).toEqual('(#a = :cond_ OR #a = #b)');
+  });
+
+  it('Should merge ranges into BETWEEN', () => {
+    expect(build({a: Condition.and(Condition.ge(1), Condition.neq(3), Condition.le(5)).simplify()}))
+        .toEqual('(#a BETWEEN :cond_between0 AND :cond_between1 AND #a <> :cond_)');
+    expect(build({a: Condition.and(Condition.ge(5), Condition.le(1)).simplify()}))
+        .toEqual('(#a >= :cond_ AND #a <= :cond_1)');
+    expect(build({a: Condition.and<unknown>(Condition.ge(1), Condition.le('x')).simplify()}))
+        .toEqual('(#a >= :cond_ AND #a <= :cond_1)');
+  });
+
+  it('Should simplify condition sets', () => {
+    const conditions = ConditionSet.and(
+        {a: Condition.ge(1)},
+        ConditionSet.and({a: Condition.le(5), b: 2}, ConditionSet.or({c: 1}, {c: 2}, ConditionSet.or({c: 3}, {d: 4}))),
+        {b: 2});
+
+    const simplified = conditions.simplify();
+
+    expect(build(simplified)).toEqual(
+        '(#a BETWEEN :cond_between0 AND :cond_between1 AND #b = :cond_ AND (#c IN (:cond_between0, :cond_, :cond_in2) OR #d = :cond_1))');
+
+    for (const a of [0, 1, 5, 6]) {
+      for (const c of [1, 3, 4]) {
+        const item = {a, b: 2, c, d: c};
+
+        expect(ConditionSet.evaluate(simplified, item)).toEqual(ConditionSet.evaluate(conditions, item));
+      }
+    }
+  });
+
+  it('Should return a single remaining operand as-is', () => {
+    expect(ConditionSet.or({a: 1}, ConditionSet.and({}, {})).simplify()).toEqual({a: expect.any(Condition)});
+    expect(build(ConditionSet.or({a: 1, b: 2}, {a: 1, b: 2}).simplify())).toEqual('#a = :cond_ AND #b = :cond_1');
+  });
+});
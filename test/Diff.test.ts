@@ -0,0 +1,62 @@
+import {buildConditionParams, ConditionSet} from '../src/Condition';
+import {buildUpdateFromDiff} from '../src/Diff';
+import {applyUpdate, buildUpdateParams} from '../src/UpdateAction';
+
+type Item = Record<string, unknown>;
+
+describe('Diff tests', () => {
+  it('Should generate minimal updates for nested maps', () => {
+    const oldItem = {id: 1, a: {b: 1, c: 2, d: {e: 'x'}}, f: 'y', g: 3};
+    const newItem = {id: 1, a: {b: 2, c: 2, d: {e: 'x', h: '#z'}}, f: 'y', i: true};
+    const {attributes, conditions} = buildUpdateFromDiff<Item>(oldItem, newItem, {keyAttributes: ['id']});
+
+    expect(conditions).toBeUndefined();
+    expect(buildUpdateParams({attributes})).toEqual({
+      UpdateExpression: 'SET #a.#a_b = :val_set, #a.#a_d.#a_d_h = :val_set_1, #i = :val_set_2 REMOVE #g',
+      ExpressionAttributeNames: {'#a': 'a', '#a_b': 'b', '#a_d': 'd', '#a_d_h': 'h', '#g': 'g', '#i': 'i'},
+      ExpressionAttributeValues: {':val_set': 2, ':val_set_1': '#z', ':val_set_2': true}
+    });
+    expect(applyUpdate(oldItem, attributes)).toEqual(newItem);
+  });
+
+  it('Should update sets using ADD and DELETE', () => {
+    const {attributes} = buildUpdateFromDiff<Item>(
+        {a: new Set([1, 2]), b: new Set(['x']), c: new Set([1]), d: new Set([1]), e: 1},
+        {a: new Set([1, 2, 3]), b: new Set<string>(), c: new Set([2]), d: new Set<number>(), e: new Set([1])});
+
+    expect(buildUpdateParams({attributes}).UpdateExpression)
+        .toEqual('ADD #a :val_add REMOVE #b, #d SET #c = :val_set, #e = :val_set_1');
+
+    const {attributes: deleted} = buildUpdateFromDiff<Item>({a: new Set([1, 2])}, {a: new Set([1])});
+
+    expect(buildUpdateParams({attributes: deleted}).UpdateExpression).toEqual('DELETE #a :val_delete');
+  });
+
+  it('Should update lists element by element', () => {
+    const oldItem = {a: [1, {b: 2}, 3, 4], c: [1, 2]};
+    const newItem = {a: [1, {b: 5}, 3], c: [3, 4]};
+    const {attributes} = buildUpdateFromDiff<Item>(oldItem, newItem);
+
+    expect(buildUpdateParams({attributes}).UpdateExpression)
+        .toEqual('SET #a[1].#a1_b = :val_set, #c = :val_set_1 REMOVE #a[3]');
+    expect(applyUpdate(oldItem, attributes)).toEqual(newItem);
+  });
+
+  it('Should produce conditions asserting old values', () => {
+    const oldItem = {a: 1, b: {c: 'x'}, d: 'y'};
+    const newItem = {a: 2, b: {c: 'x', e: 1}, d: 'y'};
+    const {conditions} = buildUpdateFromDiff<Item>(oldItem, newItem, {conditions: true});
+
+    expect(buildConditionParams({conditions: conditions!}).ConditionExpression)
+        .toEqual('#a = :cond_ AND attribute_not_exists(#b.#b_e)');
+    expect(ConditionSet.evaluate(conditions!, oldItem)).toBe(true);
+    expect(ConditionSet.evaluate(conditions!, newItem)).toBe(false);
+  });
+
+  it('Should reject unsupported changes', () => {
+    expect(() => buildUpdateFromDiff<Item>({id: 1}, {id: 2}, {keyAttributes: ['id']})).toThrow(/key attribute 'id'/);
+    expect(() => buildUpdateFromDiff<Item>({'a.b': 1}, {'a.b': 2})).toThrow(/Cannot update attribute 'a.b'/);
+    expect(buildUpdateParams({attributes: buildUpdateFromDiff<Item>({a: {'b.c': 1}}, {a: {'b.c': 2}}).attributes}))
+        .toHaveProperty('UpdateExpression', 'SET #a = :val_set');
+  });
+});
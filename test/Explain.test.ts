@@ -0,0 +1,71 @@
+import {buildConditionParams, Condition, ConditionSet} from '../src/Condition';
+import {explain} from '../src/Explain';
+import {buildUpdateParams, UpdateAction} from '../src/UpdateAction';
+
+describe('Explain tests', () => {
+  it('Should explain conditions', () => {
+    expect(explain({conditions: {status: 'active', 'address.city': Condition.beginsWith('S')}}))
+        .toEqual('status = "active" (S) AND begins_with(address.city, "S" (S))');
+    expect(explain({conditions: {'my list': Condition.in([1, 2]), b: Condition.between(1, 5)}}))
+        .toEqual('`my list` IN (1 (N), 2 (N)) AND b BETWEEN 1 (N) AND 5 (N)');
+    expect(explain({conditions: {}})).toEqual('');
+  });
+
+  it('Should explain update attributes', () => {
+    expect(explain({attributes: {a: {b: [1, true, null]}, c: UpdateAction.add(new Set(['x'])), d: UpdateAction.remove()}}))
+        .toEqual('SET a = {b: [1, true, null]} (M) ADD c <<"x">> (SS) REMOVE d');
+  });
+
+  it('Should redact values', () => {
+    expect(explain({conditions: {a: 'secret', b: 42}}, {redact: true})).toEqual('a = *** (S) AND b = *** (N)');
+    expect(explain({conditions: {a: 'secret', b: 42}}, {redact: v => typeof v === 'string'}))
+        .toEqual('a = *** (S) AND b = 42 (N)');
+  });
+
+  it('Should split large condition trees over multiple lines', () => {
+    const conditions = ConditionSet.or(
+        {status: 'active', type: Condition.in(['a', 'b', 'c'])},
+        ConditionSet.and({name: Condition.not(Condition.beginsWith('test'))}, {count: Condition.between(10, 20)}));
+
+    expect(explain({conditions}, {maxWidth: 40})).toEqual([
+      '(',
+      '  (',
+      '    status = "active" (S)',
+      '    AND type IN ("a" (S), "b" (S), "c" (S))',
+      '  )',
+      '  OR (',
+      '    NOT (begins_with(name, "test" (S)))',
+      '    AND count BETWEEN 10 (N) AND 20 (N)',
+      '  )',
+      ')',
+    ].join('\n'));
+  });
+
+  it('Should explain built params', () => {
+    const params = buildConditionParams({
+      conditions: {version: 3},
+      params: buildUpdateParams({attributes: {a: 'x', b: 'y', c: UpdateAction.remove()}, params: {TableName: 't'} as Record<string, unknown>})
+    });
+
+    expect(explain({params})).toEqual([
+      'ConditionExpression: version = 3 (N)',
+      'UpdateExpression: SET a = "x" (S), b = "y" (S) REMOVE c',
+    ].join('\n'));
+
+    expect(explain({params}, {maxWidth: 36})).toEqual([
+      'ConditionExpression: version = 3 (N)',
+      'UpdateExpression:',
+      '  SET',
+      '    a = "x" (S),',
+      '    b = "y" (S)',
+      '  REMOVE',
+      '    c',
+    ].join('\n'));
+  });
+
+  it('Should explain params with AttributeValue values', () => {
+    const params = buildConditionParams({conditions: {a: 42, b: 'x'}, options: {valueFormat: 'attributeValue'}});
+
+    expect(explain({params}, {valueFormat: 'attributeValue'})).toEqual('ConditionExpression: a = 42 (N) AND b = "x" (S)');
+  });
+});
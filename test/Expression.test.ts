@@ -0,0 +1,62 @@
+import {buildConditionParams, Condition, ConditionSet} from '../src/Condition';
+import {expr, Expression, path} from '../src/Expression';
+import {applyUpdate, buildUpdateParams, SetValue, UpdateAction} from '../src/UpdateAction';
+
+describe('Expression tests', () => {
+  it('Should build expressions as update values', () => {
+    expect(buildUpdateParams({attributes: {total: expr`${path('price.net')} + ${path('price.tax')} - ${5}`}}))
+        .toEqual({
+          UpdateExpression: 'SET #total = #price.#price_net + #price.#price_tax - :val_set',
+          ExpressionAttributeNames: {'#total': 'total', '#price': 'price', '#price_net': 'net', '#price_tax': 'tax'},
+          ExpressionAttributeValues: {':val_set': 5}
+        });
+
+    expect(buildUpdateParams({attributes: {a: SetValue.add(expr`${path('b')} * ${2}`, 1)}}))
+        .toHaveProperty('UpdateExpression', 'SET #a = #b * :val_add0 + :val_add1');
+  });
+
+  it('Should build expressions as condition operands', () => {
+    expect(buildConditionParams({conditions: {a: Condition.gt(expr`size(${path('my list')})`)}}))
+        .toEqual({
+          ConditionExpression: '#a > size(#mylist)',
+          ExpressionAttributeNames: {'#a': 'a', '#mylist': 'my list'}
+        });
+  });
+
+  it('Should never treat interpolated values as names', () => {
+    expect(buildUpdateParams({attributes: {a: expr`if_not_exists(${path('a#b')}, ${'#c'})`}}))
+        .toEqual({
+          UpdateExpression: 'SET #a = if_not_exists(#ab, :val_set)',
+          ExpressionAttributeNames: {'#a': 'a', '#ab': 'a#b'},
+          ExpressionAttributeValues: {':val_set': '#c'}
+        });
+  });
+
+  it('Should build nested expressions', () => {
+    const inner = expr`list_append(${path('a')}, ${[1]})`;
+
+    expect(buildUpdateParams({attributes: {b: expr`list_append(${inner}, ${path('c')})`}}))
+        .toHaveProperty('UpdateExpression', 'SET #b = list_append(list_append(#a, :val_set), #c)');
+  });
+
+  it('Should serialize expressions', () => {
+    const e = expr`${path('a')} + ${new Set([1])}`;
+    const attributes = {b: UpdateAction.set(e)};
+    const conditions = {c: Condition.eq(e)};
+
+    expect(JSON.parse(JSON.stringify(e))).toEqual({
+      $operand: 'expr',
+      expr: ['', ' + ', ''],
+      args: [{$operand: 'path', path: 'a'}, {$set: [1]}]
+    });
+    expect(Expression.fromJSON(JSON.parse(JSON.stringify(e)))).toEqual(e);
+    expect((UpdateAction.fromJSON(JSON.parse(JSON.stringify(attributes.b))).operands[0] as SetValue).operands).toEqual([e]);
+    expect(Condition.from(JSON.parse(JSON.stringify(conditions.c))).operands).toEqual([e]);
+    expect(() => Expression.fromJSON({$operand: 'expr', expr: ['a', 'b'], args: []})).toThrow(/Invalid serialized expression/);
+  });
+
+  it('Should not evaluate expressions', () => {
+    expect(() => applyUpdate({a: 1}, {a: expr`${path('a')} + ${1}`})).toThrow(/Cannot evaluate expression/);
+    expect(() => ConditionSet.evaluate({a: Condition.eq(expr`${path('b')}`)}, {a: 1} as Record<string, unknown>)).toThrow(/Cannot evaluate expression/);
+  });
+});
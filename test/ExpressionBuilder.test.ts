@@ -0,0 +1,72 @@
+import {ConditionExpressionBuilder} from '../src/ConditionExpressionBuilder';
+import {UpdateExpressionBuilder} from '../src/UpdateExpressionBuilder';
+import {Condition, ConditionSet} from '../src/Condition';
+import {UpdateAction} from '../src/UpdateAction';
+
+describe('Placeholder naming tests', () => {
+  it('Should use a counter for conflicting placeholders', () => {
+    const builder = new UpdateExpressionBuilder({});
+    const expr = builder.build({a: UpdateAction.add(1), b: UpdateAction.add(2), c: UpdateAction.add(3)});
+
+    expect(expr).toEqual('ADD #a :val_add, #b :val_add_1, #c :val_add_2');
+    expect(builder.params.ExpressionAttributeValues).toEqual({':val_add': 1, ':val_add_1': 2, ':val_add_2': 3});
+  });
+
+  it('Should build identical expressions for identical input', () => {
+    const conditions = ConditionSet.or({a: 1, b: 'foo'}, {a: 2, b: Condition.in(['bar', 'baz'])});
+    const build = () => {
+      const builder = new ConditionExpressionBuilder({});
+
+      return {expr: builder.build(conditions), ...builder.params};
+    };
+
+    expect(build()).toEqual(build());
+  });
+
+  it('Should reuse placeholders for identical values', () => {
+    const builder = new ConditionExpressionBuilder({});
+    const expr = builder.build({a: 1, b: 1, c: new Set(['x', 'y']), d: Condition.contains(new Set(['y', 'x']))});
+
+    expect(expr).toEqual('#a = :cond_ AND #b = :cond_ AND #c = :cond_1 AND contains(#d, :cond_1)');
+    expect(builder.params.ExpressionAttributeValues).toEqual({':cond_': 1, ':cond_1': new Set(['x', 'y'])});
+  });
+
+  it('Should not reuse placeholders for values of different types', () => {
+    const builder = new ConditionExpressionBuilder({});
+
+    expect(builder.build({a: 1, b: '1'})).toEqual('#a = :cond_ AND #b = :cond_1');
+  });
+
+  it('Should use hashed placeholders', () => {
+    const build = (conditions: ConditionSet<unknown>) =>
+        new ConditionExpressionBuilder({}, {naming: 'hash'}).build(conditions);
+
+    const [a, b] = [build({a: 1, b: 'foo'}), build({b: 'foo', a: 1})];
+
+    expect(a).toMatch(/^#a = (:cond_\w+) AND #b = (:cond_\w+)$/);
+    expect(a?.split(' AND ').reverse().join(' AND ')).toEqual(b);
+  });
+
+  it('Should use a custom naming strategy', () => {
+    const builder = new ConditionExpressionBuilder({}, {naming: (key, value, attempt) => `:v${attempt}`});
+
+    expect(builder.build({a: 1, b: 2})).toEqual('#a = :v0 AND #b = :v1');
+  });
+
+  it('Should throw if a custom naming strategy never produces a unique placeholder', () => {
+    const builder = new ConditionExpressionBuilder({}, {naming: () => ':v'});
+
+    expect(() => builder.build({a: 1, b: 2}))
+        .toThrow('Placeholder naming strategy failed to produce a unique placeholder for :cond_ after 2 attempts');
+  });
+
+  it('Should throw if a custom naming strategy produces an invalid placeholder', () => {
+    for (const placeholder of ['v', '#v', ':', undefined]) {
+      const builder = new ConditionExpressionBuilder({}, {naming: () => placeholder as string});
+
+      expect(() => builder.build({a: 1}))
+          .toThrow('Placeholder naming strategy failed to produce a valid placeholder for :cond_; ' +
+              `it must return a non-empty placeholder starting with :, not ${JSON.stringify(placeholder)}`);
+    }
+  });
+});
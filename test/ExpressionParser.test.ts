@@ -0,0 +1,158 @@
+import {ExpressionParseError, parseConditionExpression, parseUpdateExpression} from '../src/ExpressionParser';
+import {ConditionExpressionBuilder} from '../src/ConditionExpressionBuilder';
+import {UpdateExpressionBuilder} from '../src/UpdateExpressionBuilder';
+import {Condition} from '../src/Condition';
+import {Params} from '../src/ExpressionBuilder';
+
+function buildCondition(expression: string, params: Partial<Params>) {
+  const builder = new ConditionExpressionBuilder({});
+  const expr = builder.build(parseConditionExpression(expression, params));
+
+  return {expr, ...builder.params};
+}
+
+function buildUpdate(expression: string, params: Partial<Params>) {
+  const builder = new UpdateExpressionBuilder({});
+  const expr = builder.build(parseUpdateExpression(expression, params));
+
+  return {expr, ...builder.params};
+}
+
+describe('Expression parser tests', () => {
+  describe('Condition expressions', () => {
+    it('Should parse a simple condition', () => {
+      const conditions = parseConditionExpression('#a = :a AND #b > :b', {
+        ExpressionAttributeNames: {'#a': 'a', '#b': 'b'},
+        ExpressionAttributeValues: {':a': 42, ':b': 'foo'}
+      });
+
+      expect(JSON.parse(JSON.stringify(conditions))).toEqual({
+        a: {operator: '=', operands: [42]},
+        b: {operator: '>', operands: ['foo']}
+      });
+    });
+
+    it('Should parse conditions on the same attribute into a single condition', () => {
+      const conditions = parseConditionExpression('#a = :a OR #a > :b', {
+        ExpressionAttributeNames: {'#a': 'a'},
+        ExpressionAttributeValues: {':a': 1, ':b': 5}
+      });
+
+      expect(JSON.parse(JSON.stringify(conditions))).toEqual(JSON.parse(JSON.stringify({
+        a: Condition.or(Condition.eq(1), Condition.gt(5))
+      })));
+    });
+
+    it('Should parse a composite condition', () => {
+      const {expr, ExpressionAttributeNames, ExpressionAttributeValues} = buildCondition(
+          '(#a = :a AND #b = :b) OR NOT (#a BETWEEN :c AND :d) OR #b IN (:a, :b)', {
+            ExpressionAttributeNames: {'#a': 'a', '#b': 'b'},
+            ExpressionAttributeValues: {':a': 1, ':b': 2, ':c': 3, ':d': 4}
+          });
+
+      expect(expr).toMatch(
+          /^\(#a = :cond_\w* AND #b = :cond_\w* OR NOT \(#a BETWEEN :cond_\w* AND :cond_\w*\) OR #b IN \(:cond_\w*, :cond_\w*\)\)$/);
+      expect(ExpressionAttributeNames).toEqual({'#a': 'a', '#b': 'b'});
+      expect(Object.values(ExpressionAttributeValues ?? {})).toEqual([1, 2, 3, 4]);
+    });
+
+    it('Should parse functions, size and nested paths', () => {
+      const {expr, ExpressionAttributeNames, ExpressionAttributeValues} = buildCondition(
+          'attribute_exists(#a.#b[1]) AND begins_with(#c, :c) AND size(#d) < :d AND #e >= #a.#b[0]', {
+            ExpressionAttributeNames: {'#a': 'a', '#b': 'b', '#c': 'c', '#d': 'd', '#e': 'e'},
+            ExpressionAttributeValues: {':c': 'foo', ':d': 5}
+          });
+
+      expect(expr).toMatch(
+          /^attribute_exists\(#a\.#a_b\[1\]\) AND begins_with\(#c, :cond_\w*\) AND size\(#d\) < :cond_\w* AND #e >= #a\.#a_b\[0\]$/);
+      expect(ExpressionAttributeNames).toEqual({'#a': 'a', '#a_b': 'b', '#c': 'c', '#d': 'd', '#e': 'e'});
+      expect(Object.values(ExpressionAttributeValues ?? {})).toEqual(['foo', 5]);
+    });
+
+    it('Should parse a comparison with the value to the left', () => {
+      const {expr} = buildCondition(':a < #a', {
+        ExpressionAttributeNames: {'#a': 'a'},
+        ExpressionAttributeValues: {':a': 1}
+      });
+
+      expect(expr).toMatch(/^#a > :cond_\w*$/);
+    });
+
+    it('Should preserve values containing special characters', () => {
+      const {ExpressionAttributeValues} = buildCondition('#a = :a AND #b = :b', {
+        ExpressionAttributeNames: {'#a': 'a', '#b': 'b'},
+        ExpressionAttributeValues: {':a': '#foo', ':b': ':bar'}
+      });
+
+      expect(Object.values(ExpressionAttributeValues ?? {})).toEqual(['#foo', ':bar']);
+    });
+
+    it('Should report the position of a syntax error', () => {
+      let error: unknown;
+
+      try {
+        parseConditionExpression('#a = :a AND #b ! :b', {
+          ExpressionAttributeNames: {'#a': 'a', '#b': 'b'},
+          ExpressionAttributeValues: {':a': 1, ':b': 2}
+        });
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(ExpressionParseError);
+      expect((error as ExpressionParseError).position).toEqual(15);
+    });
+
+    it('Should reject undefined placeholders', () => {
+      expect(() => parseConditionExpression('#a = :a', {ExpressionAttributeNames: {'#a': 'a'}}))
+          .toThrow(ExpressionParseError);
+    });
+
+    it('Should reject NOT on a composite condition', () => {
+      expect(() => parseConditionExpression('NOT (#a = :a AND #b = :a)', {
+        ExpressionAttributeNames: {'#a': 'a', '#b': 'b'},
+        ExpressionAttributeValues: {':a': 1}
+      })).toThrow(/position 0/);
+    });
+  });
+
+  describe('Update expressions', () => {
+    it('Should parse all update clauses', () => {
+      const v = new Set([1]);
+      const {expr, ExpressionAttributeNames, ExpressionAttributeValues} = buildUpdate(
+          'SET #a = :a, #b = #c REMOVE #d ADD #e :e DELETE #f :f', {
+            ExpressionAttributeNames: {'#a': 'a', '#b': 'b', '#c': 'c', '#d': 'd', '#e': 'e', '#f': 'f'},
+            ExpressionAttributeValues: {':a': 'foo', ':e': 1, ':f': v}
+          });
+
+      expect(expr).toMatch(/^SET #a = :val_\w*, #b = #c REMOVE #d ADD #e :val_\w* DELETE #f :val_\w*$/);
+      expect(ExpressionAttributeNames).toEqual({'#a': 'a', '#b': 'b', '#c': 'c', '#d': 'd', '#e': 'e', '#f': 'f'});
+      expect(Object.values(ExpressionAttributeValues ?? {})).toEqual(['foo', 1, v]);
+    });
+
+    it('Should parse SET functions and arithmetic', () => {
+      const {expr, ExpressionAttributeValues} = buildUpdate(
+          'SET #a = #a + :a, #b = list_append(if_not_exists(#b, :empty), :b), #c = :c - #c', {
+            ExpressionAttributeNames: {'#a': 'a', '#b': 'b', '#c': 'c'},
+            ExpressionAttributeValues: {':a': 1, ':b': ['x'], ':c': 10, ':empty': []}
+          });
+
+      expect(expr).toMatch(
+          /^SET #a = #a \+ :val_\w*, #b = list_append\(if_not_exists\(#b, :val_\w*\), :val_\w*\), #c = :val_\w* - #c$/);
+      expect(Object.values(ExpressionAttributeValues ?? {})).toEqual([1, [], ['x'], 10]);
+    });
+
+    it('Should reject duplicate paths', () => {
+      expect(() => parseUpdateExpression('SET #a = :a REMOVE #a', {
+        ExpressionAttributeNames: {'#a': 'a'},
+        ExpressionAttributeValues: {':a': 1}
+      })).toThrow(/position 19/);
+    });
+
+    it('Should reject unsupported functions', () => {
+      expect(() => parseUpdateExpression('SET #a = foo(#a)', {
+        ExpressionAttributeNames: {'#a': 'a'}
+      })).toThrow(ExpressionParseError);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {buildConditionParams, buildKeyConditionParams, Condition, ConditionSet} from '../src/Condition';
+import {ExpressionValidationError, ExpressionViolation} from '../src/ExpressionValidator';
+import {buildUpdateParams, UpdateAction} from '../src/UpdateAction';
+
+function getViolations(f: () => void): ExpressionViolation[] {
+  try {
+    f();
+  } catch (err) {
+    expect(err).toBeInstanceOf(ExpressionValidationError);
+    return err.violations;
+  }
+
+  throw new Error('Expected an ExpressionValidationError');
+}
+
+const range = (n: number) => [...Array(n).keys()];
+
+describe('Expression validation tests', () => {
+  it('Should accept a valid expression in strict mode', () => {
+    expect(buildConditionParams({
+      conditions: {a: Condition.in(range(100)), 'b.c': 'foo'},
+      options: {strict: true}
+    }).ConditionExpression).toBeDefined();
+  });
+
+  it('Should not validate unless strict mode is enabled', () => {
+    expect(buildConditionParams({conditions: {a: Condition.in(range(101))}}).ConditionExpression).toBeDefined();
+  });
+
+  it('Should reject too many IN operands', () => {
+    expect(getViolations(() => buildKeyConditionParams({
+      conditions: {a: Condition.not(Condition.in(range(101)))},
+      options: {strict: true}
+    }))).toEqual([expect.objectContaining({rule: 'inOperands', path: 'a'})]);
+  });
+
+  it('Should reject too long expressions and too many operators', () => {
+    const conditions = ConditionSet.or(...range(301).map(i => ({[`attribute${i}`]: i})));
+
+    expect(getViolations(() => buildConditionParams({conditions, options: {strict: true}})).map(v => v.rule))
+        .toEqual(['expressionLength', 'operatorCount']);
+  });
+
+  it('Should reject too deeply nested paths', () => {
+    const path = range(33).map(i => `a${i}`).join('.');
+
+    expect(getViolations(() => buildUpdateParams({attributes: {[path]: 1}, options: {strict: true}})))
+        .toEqual([expect.objectContaining({rule: 'nestingDepth', path})]);
+  });
+
+  it('Should reject overlapping update paths', () => {
+    expect(getViolations(() => buildUpdateParams({
+      attributes: {'a.b': 1, a: UpdateAction.remove(), '#c[1]': 2, 'c[1]': 3, 'c[10]': 4},
+      options: {strict: true}
+    }))).toEqual([
+      expect.objectContaining({rule: 'overlappingPaths', path: 'a'}),
+      expect.objectContaining({rule: 'overlappingPaths', path: 'c[1]'}),
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import {Condition} from '../src/Condition';
+import {buildDeleteParams, buildPutParams} from '../src/ItemParams';
+
+const item = {pk: 'a', sk: 1, name: 'foo'};
+
+describe('Item params tests', () => {
+  it('Should build put params', () => {
+    expect(buildPutParams({tableName: 't', item, params: {ReturnValues: 'ALL_OLD'}}))
+        .toEqual({TableName: 't', Item: item, ReturnValues: 'ALL_OLD'});
+
+    expect(buildPutParams({tableName: 't', item, keyAttributes: ['pk', 'sk'], mode: 'createOnly'}))
+        .toEqual({
+          TableName: 't',
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(#pk) AND attribute_not_exists(#sk)',
+          ExpressionAttributeNames: {'#pk': 'pk', '#sk': 'sk'}
+        });
+  });
+
+  it('Should combine conditions with the write mode', () => {
+    expect(buildPutParams({tableName: 't', item, keyAttributes: ['pk'], mode: 'replaceOnly', conditions: {name: Condition.neq('bar')}}))
+        .toEqual({
+          TableName: 't',
+          Item: item,
+          ConditionExpression: '(#name <> :cond_ AND attribute_exists(#pk))',
+          ExpressionAttributeNames: {'#pk': 'pk', '#name': 'name'},
+          ExpressionAttributeValues: {':cond_': 'bar'}
+        });
+  });
+
+  it('Should require key attributes for put write modes', () => {
+    expect(() => buildPutParams({tableName: 't', item, mode: 'createOnly'})).toThrow(/without key attributes/);
+  });
+
+  it('Should build delete params', () => {
+    expect(buildDeleteParams({tableName: 't', key: {pk: 'a', sk: 1}, mode: 'replaceOnly'}))
+        .toEqual({
+          TableName: 't',
+          Key: {pk: 'a', sk: 1},
+          ConditionExpression: 'attribute_exists(#pk) AND attribute_exists(#sk)',
+          ExpressionAttributeNames: {'#pk': 'pk', '#sk': 'sk'}
+        });
+
+    expect(buildDeleteParams({tableName: 't', key: {pk: 'a'}, conditions: {count: Condition.lt(1)}}))
+        .toHaveProperty('ConditionExpression', '#count < :cond_');
+  });
+});
@@ -0,0 +1,51 @@
+import {buildKeyConditionParams, Condition, ConditionSet} from '../src/Condition';
+import {expr} from '../src/Expression';
+import {Operand} from '../src/Operand';
+
+const keySchema = {partitionKey: 'pk', sortKey: 'sk'} as const;
+
+describe('Key schema tests', () => {
+  it('Should build valid key conditions', () => {
+    expect(buildKeyConditionParams({conditions: {pk: 'a', sk: Condition.beginsWith('b')}, keySchema}))
+        .toEqual({
+          KeyConditionExpression: '#pk = :cond_ AND begins_with(#sk, :cond_begins_with_arg0)',
+          ExpressionAttributeNames: {'#pk': 'pk', '#sk': 'sk'},
+          ExpressionAttributeValues: {':cond_': 'a', ':cond_begins_with_arg0': 'b'}
+        });
+
+    expect(buildKeyConditionParams({conditions: {pk: Condition.eq(1)}, keySchema: {partitionKey: 'pk'}}))
+        .toHaveProperty('KeyConditionExpression', '#pk = :cond_');
+  });
+
+  it('Should reject invalid partition key conditions', () => {
+    expect(() => buildKeyConditionParams({conditions: {pk: Condition.gt('a')}, keySchema})).toThrow(/may not use >/);
+    expect(() => buildKeyConditionParams({conditions: {sk: 'b'} as any, keySchema})).toThrow(/must contain/);
+    expect(() => buildKeyConditionParams({conditions: {pk: Condition.eq(Operand.get('sk'))}, keySchema}))
+        .toThrow(/other attributes/);
+  });
+
+  it('Should reject invalid sort key conditions', () => {
+    for (const sk of [Condition.neq('b'), Condition.in(['b']), Condition.contains('b'), Condition.or('a', 'b')]) {
+      expect(() => buildKeyConditionParams({conditions: {pk: 'a', sk}, keySchema})).toThrow(/may not use/);
+    }
+  });
+
+  it('Should reject key conditions on operands other than values', () => {
+    expect(() => buildKeyConditionParams({conditions: {pk: 'a', sk: Condition.gt<any>(expr`${1}`)}, keySchema}))
+        .toThrow(/^Key condition for 'sk' may not use expressions$/);
+    expect(() => buildKeyConditionParams({conditions: {pk: 'a', sk: Condition.lt(Operand.sizeOf('pk'))}, keySchema}))
+        .toThrow(/^Key condition for 'sk' may not refer to other attributes$/);
+  });
+
+  it('Should reject conditions on other attributes', () => {
+    expect(() => buildKeyConditionParams({conditions: {pk: 'a', foo: 1} as any, keySchema})).toThrow(/key attributes/);
+    expect(() => buildKeyConditionParams({conditions: {pk: 'a', '#pk': 'b'} as any, keySchema})).toThrow(/one condition/);
+  });
+
+  it('Should reject OR conditions', () => {
+    expect(() => buildKeyConditionParams({
+      conditions: ConditionSet.or({pk: 'a'}, {pk: 'b'}) as any,
+      keySchema
+    })).toThrow(/may not use OR/);
+  });
+});
@@ -0,0 +1,91 @@
+import {buildConditionParams, ConditionSet} from '../src/Condition';
+import {GuardedUpdate, ListUpdate} from '../src/ListUpdate';
+import {applyUpdate, buildUpdateParams} from '../src/UpdateAction';
+
+function build({attributes, conditions}: GuardedUpdate<unknown>) {
+  const params = buildUpdateParams({attributes});
+
+  return conditions ? buildConditionParams({conditions, params}) : params;
+}
+
+describe('List update tests', () => {
+  const item = {id: '1', tags: ['a', 'b', 'a'], nested: {list: [1, 2]}};
+
+  it('Should set a list element requiring it to exist', () => {
+    const update = ListUpdate.setElement('tags', 1, 'c');
+
+    expect(build(update)).toEqual({
+      UpdateExpression: 'SET #tags[1] = :val_set',
+      ConditionExpression: 'attribute_exists(#tags[1])',
+      ExpressionAttributeNames: {'#tags': 'tags'},
+      ExpressionAttributeValues: {':val_set': 'c'},
+    });
+    expect(applyUpdate(item, update.attributes)).toEqual({...item, tags: ['a', 'c', 'a']});
+    expect(ConditionSet.evaluate(update.conditions as ConditionSet<unknown>, item)).toBe(true);
+    expect(ConditionSet.evaluate(ListUpdate.setElement('tags', 3, 'c').conditions as ConditionSet<unknown>, item))
+        .toBe(false);
+  });
+
+  it('Should set a list element requiring its expected value', () => {
+    expect(build(ListUpdate.setElement('tags', 1, '#c', 'b'))).toEqual({
+      UpdateExpression: 'SET #tags[1] = :val_set',
+      ConditionExpression: '#tags[1] = :cond_',
+      ExpressionAttributeNames: {'#tags': 'tags'},
+      ExpressionAttributeValues: {':val_set': '#c', ':cond_': 'b'},
+    });
+  });
+
+  it('Should remove a list element', () => {
+    const update = ListUpdate.removeElement('nested.list', 0, 1);
+
+    expect(build(update)).toEqual({
+      UpdateExpression: 'REMOVE #nested.#nested_list[0]',
+      ConditionExpression: '#nested.#nested_list[0] = :cond_',
+      ExpressionAttributeNames: {'#nested': 'nested', '#nested_list': 'list'},
+      ExpressionAttributeValues: {':cond_': 1},
+    });
+    expect(applyUpdate(item, update.attributes)).toEqual({...item, nested: {list: [2]}});
+    expect(build(ListUpdate.removeElement('tags', 2))).toHaveProperty('ConditionExpression',
+        'attribute_exists(#tags[2])');
+  });
+
+  it('Should remove all elements equal to a value', () => {
+    const update = ListUpdate.removeValue('tags', item.tags, 'a');
+
+    expect(build(update)).toEqual({
+      UpdateExpression: 'REMOVE #tags[0], #tags[2]',
+      ConditionExpression: '#tags[0] = :cond_ AND #tags[2] = :cond_',
+      ExpressionAttributeNames: {'#tags': 'tags'},
+      ExpressionAttributeValues: {':cond_': 'a'},
+    });
+    expect(applyUpdate(item, update.attributes)).toEqual({...item, tags: ['b']});
+    expect(ConditionSet.evaluate(update.conditions as ConditionSet<unknown>, {tags: ['b', 'a', 'a']})).toBe(false);
+  });
+
+  it('Should compare map values when removing elements', () => {
+    expect(ListUpdate.removeValue('maps', [{a: 1, b: 2}, {a: 2}], {b: 2, a: 1}).attributes).toHaveProperty(['maps[0]']);
+  });
+
+  it('Should reject removing a value which is not in the list', () => {
+    expect(() => ListUpdate.removeValue('tags', item.tags, 'x')).toThrow();
+  });
+
+  it('Should reject invalid indexes', () => {
+    expect(() => ListUpdate.setElement('tags', -1, 'x')).toThrow();
+    expect(() => ListUpdate.removeElement('tags', 1.5)).toThrow();
+  });
+
+  it('Should prepend and append to lists which may not exist', () => {
+    expect(build(ListUpdate.prepend('tags', ['x']))).toEqual({
+      UpdateExpression: 'SET #tags = list_append(:val_append0, if_not_exists(#tags, :val_ifnotexists))',
+      ExpressionAttributeNames: {'#tags': 'tags'},
+      ExpressionAttributeValues: {':val_append0': ['x'], ':val_ifnotexists': []},
+    });
+    expect(build(ListUpdate.append('tags', ['x']))).toHaveProperty('UpdateExpression',
+        'SET #tags = list_append(if_not_exists(#tags, :val_ifnotexists), :val_append1)');
+    expect(applyUpdate<Record<string, unknown>>(item, ListUpdate.prepend('tags', ['x']).attributes))
+        .toEqual({...item, tags: ['x', 'a', 'b', 'a']});
+    expect(applyUpdate<Record<string, unknown>>(item, ListUpdate.append('other', ['x']).attributes))
+        .toEqual({...item, other: ['x']});
+  });
+});
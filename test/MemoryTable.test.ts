@@ -0,0 +1,276 @@
+import {buildConditionParams, buildFilterParams, buildKeyConditionParams, Condition, ConditionSet} from '../src/Condition';
+import {buildDeleteParams, buildPutParams} from '../src/ItemParams';
+import {
+  ConditionalCheckFailedException,
+  MemoryTable,
+  MemoryTableError,
+  TransactionCanceledException
+} from '../src/MemoryTable';
+import {queryItems} from '../src/Pagination';
+import {buildProjectionParams} from '../src/Projection';
+import {buildQueryParams, TableDefinition} from '../src/Table';
+import {buildTransactWriteParams} from '../src/Transaction';
+import {buildUpdateParams, UpdateAction} from '../src/UpdateAction';
+
+interface Item {
+  userId: string;
+  createdAt: number;
+  status?: string;
+  count?: number;
+  tags?: string[];
+}
+
+const TableName = 'items';
+
+const definition: TableDefinition = {
+  tableName: TableName,
+  keySchema: {partitionKey: 'userId', sortKey: 'createdAt'},
+  indexes: [
+    {name: 'byStatus', type: 'global', keySchema: {partitionKey: 'status', sortKey: 'createdAt'}, projection: 'KEYS_ONLY'},
+  ]
+};
+
+async function getError(promise: Promise<unknown>): Promise<any> {
+  try {
+    await promise;
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('Memory table tests', () => {
+  let table: MemoryTable<Item>;
+
+  beforeEach(async () => {
+    table = new MemoryTable(definition);
+
+    for (const [userId, createdAt, status] of [['u1', 3, 'open'], ['u1', 1, 'closed'], ['u1', 2, 'open'], ['u2', 1, 'open']]) {
+      await table.put({TableName, Item: {userId, createdAt, status, count: 0}});
+    }
+  });
+
+  it('Should put and get items', async () => {
+    await table.put(buildPutParams({tableName: TableName, item: {userId: 'u3', createdAt: 1, tags: ['a', 'b']}}));
+
+    expect(await table.get({TableName, Key: {userId: 'u3', createdAt: 1}}))
+        .toEqual({Item: {userId: 'u3', createdAt: 1, tags: ['a', 'b']}});
+    expect(await table.get({TableName, Key: {userId: 'u3', createdAt: 2}})).toEqual({});
+    expect(await table.get(buildProjectionParams({
+      attributes: ['userId', 'tags[1]'],
+      params: {TableName, Key: {userId: 'u3', createdAt: 1}}
+    }))).toEqual({Item: {userId: 'u3', tags: ['b']}});
+  });
+
+  it('Should not share item objects with callers', async () => {
+    const item = {userId: 'u3', createdAt: 1, tags: ['a']};
+
+    await table.put({TableName, Item: item});
+    item.tags.push('b');
+
+    const {Item} = await table.get({TableName, Key: {userId: 'u3', createdAt: 1}});
+
+    Item?.tags?.push('c');
+    expect(await table.get({TableName, Key: {userId: 'u3', createdAt: 1}})).toHaveProperty('Item.tags', ['a']);
+  });
+
+  it('Should reject invalid keys and tables', async () => {
+    expect(await getError(table.get({TableName, Key: {userId: 'u1'}}))).toHaveProperty('name', 'ValidationException');
+    expect(await getError(table.get({TableName, Key: {userId: 'u1', createdAt: 1, x: 1}})))
+        .toHaveProperty('code', 'ValidationException');
+    expect(await getError(table.put({TableName, Item: {userId: 'u1'}}))).toHaveProperty('name', 'ValidationException');
+    expect(await getError(table.get({TableName: 'other', Key: {userId: 'u1', createdAt: 1}})))
+        .toHaveProperty('name', 'ResourceNotFoundException');
+  });
+
+  it('Should apply updates', async () => {
+    const params = buildUpdateParams({
+      attributes: {count: UpdateAction.add(2), tags: ['x']},
+      params: {TableName, Key: {userId: 'u1', createdAt: 2}, ReturnValues: 'ALL_NEW'}
+    });
+    const result = await table.update(buildConditionParams({conditions: {status: 'open'}, params: {...params}}));
+
+    expect(result).toEqual({Attributes: {userId: 'u1', createdAt: 2, status: 'open', count: 2, tags: ['x']}});
+  });
+
+  it('Should create items by updating them', async () => {
+    await table.update(buildUpdateParams({attributes: {count: 1}, params: {TableName, Key: {userId: 'u3', createdAt: 1}}}));
+
+    expect(await table.get({TableName, Key: {userId: 'u3', createdAt: 1}}))
+        .toEqual({Item: {userId: 'u3', createdAt: 1, count: 1}});
+  });
+
+  it('Should reject updating key attributes', async () => {
+    expect(await getError(table.update(buildUpdateParams({
+      attributes: {createdAt: 5},
+      params: {TableName, Key: {userId: 'u1', createdAt: 1}}
+    })))).toHaveProperty('name', 'ValidationException');
+    expect(await getError(table.update(buildUpdateParams({
+      attributes: {createdAt: '1'},
+      params: {TableName, Key: {userId: 'u1', createdAt: 1}}
+    })))).toHaveProperty('name', 'ValidationException');
+  });
+
+  it('Should throw ConditionalCheckFailedException for failed conditions', async () => {
+    const key = {userId: 'u1', createdAt: 1};
+    const params = buildUpdateParams({
+      attributes: {count: UpdateAction.add(1)},
+      params: {TableName, Key: key, ReturnValuesOnConditionCheckFailure: 'ALL_OLD'}
+    });
+    const err = await getError(table.update(buildConditionParams({conditions: {status: 'open'}, params: {...params}})));
+
+    expect(err).toBeInstanceOf(ConditionalCheckFailedException);
+    expect(err).toHaveProperty('name', 'ConditionalCheckFailedException');
+    expect(err).toHaveProperty('code', 'ConditionalCheckFailedException');
+    expect(err.Item).toEqual({...key, status: 'closed', count: 0});
+    expect(await table.get({TableName, Key: key})).toHaveProperty('Item.count', 0);
+
+    expect(await getError(table.put(buildPutParams({
+      tableName: TableName,
+      item: {...key},
+      keyAttributes: ['userId', 'createdAt'],
+      mode: 'createOnly'
+    })))).toBeInstanceOf(ConditionalCheckFailedException);
+  });
+
+  it('Should delete items', async () => {
+    const Key = {userId: 'u1', createdAt: 1};
+
+    expect(await getError(table.delete(buildDeleteParams({tableName: TableName, key: Key, conditions: {status: 'open'}}))))
+        .toBeInstanceOf(ConditionalCheckFailedException);
+    expect(await table.delete({TableName, Key, ReturnValues: 'ALL_OLD'}))
+        .toEqual({Attributes: {...Key, status: 'closed', count: 0}});
+    expect(await table.get({TableName, Key})).toEqual({});
+  });
+
+  it('Should query items sorted by sort key', async () => {
+    const params = buildKeyConditionParams({conditions: {userId: 'u1', createdAt: Condition.ge(2)}, params: {TableName}});
+
+    expect(await table.query(params)).toEqual({
+      Items: [
+        {userId: 'u1', createdAt: 2, status: 'open', count: 0},
+        {userId: 'u1', createdAt: 3, status: 'open', count: 0},
+      ],
+      Count: 2,
+      ScannedCount: 2
+    });
+    expect((await table.query({...params, ScanIndexForward: false})).Items?.map(item => item.createdAt))
+        .toEqual([3, 2]);
+  });
+
+  it('Should query with filters, limits and pagination', async () => {
+    const keyConditionParams = buildKeyConditionParams({conditions: {userId: 'u1'}, params: {TableName, Limit: 2}});
+    const params = buildFilterParams({conditions: {status: 'open'}, params: {...keyConditionParams}});
+    const page = await table.query(params);
+
+    expect(page).toEqual({
+      Items: [{userId: 'u1', createdAt: 2, status: 'open', count: 0}],
+      Count: 1,
+      ScannedCount: 2,
+      LastEvaluatedKey: {userId: 'u1', createdAt: 2}
+    });
+    expect(await table.query({...params, ExclusiveStartKey: page.LastEvaluatedKey})).toEqual({
+      Items: [{userId: 'u1', createdAt: 3, status: 'open', count: 0}],
+      Count: 1,
+      ScannedCount: 1
+    });
+    expect((await table.query({...params, ScanIndexForward: false, ExclusiveStartKey: {userId: 'u1', createdAt: 3}}))
+        .Items?.map(item => item.createdAt)).toEqual([2]);
+    expect(await table.query({...params, Select: 'COUNT'})).not.toHaveProperty('Items');
+  });
+
+  it('Should be usable as a client for pagination', async () => {
+    const params = buildKeyConditionParams({conditions: {userId: 'u1'}, params: {TableName, Limit: 1}});
+    const items: Item[] = [];
+
+    for await (const item of queryItems(table, params)) {
+      items.push(item);
+    }
+
+    expect(items.map(item => item.createdAt)).toEqual([1, 2, 3]);
+  });
+
+  it('Should query sparse indexes with projections', async () => {
+    await table.put({TableName, Item: {userId: 'u3', createdAt: 0}});
+
+    const params = buildQueryParams({table: definition, conditions: {status: 'open'}, params: {TableName}});
+
+    expect(params.IndexName).toEqual('byStatus');
+    expect((await table.query(params)).Items).toEqual([
+      {status: 'open', createdAt: 1, userId: 'u2'},
+      {status: 'open', createdAt: 2, userId: 'u1'},
+      {status: 'open', createdAt: 3, userId: 'u1'},
+    ]);
+    expect(await getError(table.query({...params, IndexName: 'other'}))).toHaveProperty('name', 'ValidationException');
+  });
+
+  it('Should reject invalid key conditions', async () => {
+    expect(await getError(table.query(buildKeyConditionParams({conditions: {status: 'open'}, params: {TableName}}))))
+        .toBeInstanceOf(MemoryTableError);
+  });
+
+  it('Should not match key conditions on key attributes of other types', async () => {
+    expect(await table.query(buildKeyConditionParams({
+      conditions: {userId: 'u1', createdAt: Condition.beginsWith('1')},
+      params: {TableName}
+    }))).toEqual({Items: [], Count: 0, ScannedCount: 0});
+  });
+
+  it('Should filter out items lacking the filtered attribute', async () => {
+    await table.put({TableName, Item: {userId: 'u3', createdAt: 1, tags: ['a', 'b']}});
+
+    const scan = async (conditions: ConditionSet<unknown>) =>
+        (await table.scan(buildFilterParams({conditions, params: {TableName}}))).Items?.map(item => item.userId);
+
+    expect(await scan({status: Condition.beginsWith('cl')})).toEqual(['u1']);
+    expect(await scan({tags: Condition.contains('b')})).toEqual(['u3']);
+    expect(await scan({status: Condition.contains('pe')})).toEqual(['u1', 'u1', 'u2']);
+    expect(await scan({count: Condition.lt(1)})).toEqual(['u1', 'u1', 'u1', 'u2']);
+  });
+
+  it('Should scan items in parallel segments', async () => {
+    const all = await table.scan({TableName});
+    const segments = await Promise.all([0, 1].map(Segment => table.scan({TableName, Segment, TotalSegments: 2})));
+
+    expect(all.Items?.map(item => [item.userId, item.createdAt])).toEqual([['u1', 1], ['u1', 2], ['u1', 3], ['u2', 1]]);
+    expect(segments.map(page => page.Items?.map(item => item.userId))).toEqual([['u1', 'u1', 'u1'], ['u2']]);
+    expect((await table.scan(buildFilterParams({conditions: {createdAt: 1}, params: {TableName}}))).Count).toEqual(2);
+  });
+
+  it('Should write transactions atomically', async () => {
+    await table.transactWrite(buildTransactWriteParams({
+      operations: [
+        {type: 'Update', tableName: TableName, key: {userId: 'u1', createdAt: 1}, attributes: {count: UpdateAction.add(1)}},
+        {type: 'Delete', tableName: TableName, key: {userId: 'u2', createdAt: 1}},
+        {type: 'ConditionCheck', tableName: TableName, key: {userId: 'u1', createdAt: 2}, conditions: {status: 'open'}},
+      ]
+    }));
+
+    expect(await table.get({TableName, Key: {userId: 'u1', createdAt: 1}})).toHaveProperty('Item.count', 1);
+    expect(await table.get({TableName, Key: {userId: 'u2', createdAt: 1}})).toEqual({});
+
+    const err = await getError(table.transactWrite(buildTransactWriteParams({
+      operations: [
+        {type: 'Put', tableName: TableName, item: {userId: 'u4', createdAt: 1}, keyAttributes: ['userId', 'createdAt']},
+        {type: 'Update', tableName: TableName, key: {userId: 'u1', createdAt: 3}, attributes: {count: 5},
+          conditions: {status: 'closed'}},
+      ]
+    })));
+
+    expect(err).toBeInstanceOf(TransactionCanceledException);
+    expect(err.CancellationReasons).toEqual([
+      {Code: 'None'},
+      {Code: 'ConditionalCheckFailed', Message: 'The conditional request failed'},
+    ]);
+    expect(await table.get({TableName, Key: {userId: 'u4', createdAt: 1}})).toEqual({});
+  });
+
+  it('Should reject transactions with multiple operations on one item', async () => {
+    expect(await getError(table.transactWrite({
+      TransactItems: [
+        {Delete: {TableName, Key: {userId: 'u1', createdAt: 1}}},
+        {Put: {TableName, Item: {userId: 'u1', createdAt: 1}}},
+      ]
+    }))).toHaveProperty('name', 'ValidationException');
+  });
+});
@@ -0,0 +1,109 @@
+import {buildConditionParams, Condition, ConditionAttributes, ConditionSet} from '../src/Condition';
+import {Operand} from '../src/Operand';
+import {applyUpdate, buildUpdateParams, SetValue, UpdateAction, UpdateAttributes} from '../src/UpdateAction';
+
+interface Item {
+  a: number;
+  b: number;
+  c: string;
+  d: string[];
+}
+
+describe('Operand tests', () => {
+  it('Should build typed operands in conditions', () => {
+    const {path, size} = Operand.of<Item>();
+    const conditions: ConditionAttributes<Item> = {
+      a: Condition.gt(path('b')),
+      b: Condition.between(Operand.value(1), size('d')),
+      c: Condition.in([Operand.value('#c'), Operand.value(':c')]),
+    };
+
+    expect(buildConditionParams({conditions})).toEqual({
+      ConditionExpression: '#a > #b AND #b BETWEEN :cond_between0 AND size(#d) AND #c IN (:cond_in0, :cond_in1)',
+      ExpressionAttributeNames: {'#a': 'a', '#b': 'b', '#c': 'c', '#d': 'd'},
+      ExpressionAttributeValues: {':cond_between0': 1, ':cond_in0': '#c', ':cond_in1': ':c'}
+    });
+  });
+
+  it('Should type-check comparisons between attributes', () => {
+    const {path, size} = Operand.of<Item>();
+
+    // @ts-expect-error a is a number and c is a string
+    const invalidPath: ConditionAttributes<Item> = {a: Condition.eq(path('c'))};
+    // @ts-expect-error c is a string and the size is a number
+    const invalidSize: ConditionAttributes<Item> = {c: Condition.lt(size('d'))};
+    // @ts-expect-error a is a number and the value is a string
+    const invalidValue: ConditionAttributes<Item> = {a: Operand.value('1')};
+
+    expect([invalidPath, invalidSize, invalidValue]).toHaveLength(3);
+  });
+
+  it('Should evaluate typed operands', () => {
+    const item: Item = {a: 3, b: 2, c: '#b', d: ['x', 'y']};
+
+    expect(ConditionSet.evaluate<Item>({a: Condition.gt(Operand.path('b')), c: Operand.value('#b')}, item)).toBe(true);
+    expect(ConditionSet.evaluate<Item>({b: Operand.sizeOf('d')}, item)).toBe(true);
+    expect(ConditionSet.evaluate<Item>({a: Operand.path('b')}, item)).toBe(false);
+    expect(Condition.beginsWith(Operand.value('#')).evaluate('#b')).toBe(true);
+    expect(Condition.in([Operand.value(1), 2]).evaluate(1)).toBe(true);
+  });
+
+  it('Should build typed operands in updates', () => {
+    const attributes: UpdateAttributes<Item> = {
+      a: Operand.path('b'),
+      b: UpdateAction.set(SetValue.add(Operand.sizeOf('d'), Operand.value(1))),
+      c: UpdateAction.set(SetValue.ifNotExists(Operand.path<string>('c'), Operand.value('#x'))),
+    };
+
+    expect(buildUpdateParams({attributes})).toEqual({
+      UpdateExpression: 'SET #a = #b, #b = size(#d) + :val_add1, #c = if_not_exists(#c, :val_ifnotexists)',
+      ExpressionAttributeNames: {'#a': 'a', '#b': 'b', '#c': 'c', '#d': 'd'},
+      ExpressionAttributeValues: {':val_add1': 1, ':val_ifnotexists': '#x'}
+    });
+
+    expect(applyUpdate<Item>({a: 1, b: 2, c: 'c', d: ['x']}, attributes)).toEqual({a: 2, b: 2, c: 'c', d: ['x']});
+  });
+
+  it('Should serialize typed operands', () => {
+    const condition = Condition.between<unknown>(Operand.path('b'), Operand.value(new Set([1])));
+    const action = UpdateAction.set(SetValue.add(Operand.sizeOf('d'), 1));
+
+    expect(JSON.parse(JSON.stringify(condition))).toEqual({
+      operator: 'between',
+      operands: [{$operand: 'path', path: 'b'}, {$operand: 'literal', value: {$set: [1]}}]
+    });
+    expect(Condition.from(JSON.parse(JSON.stringify(condition))).operands).toEqual(condition.operands);
+    expect(UpdateAction.fromJSON(JSON.parse(JSON.stringify(action))).operands[0])
+        .toHaveProperty('operands', [Operand.sizeOf('d'), 1]);
+    expect(() => Operand.fromJSON({foo: 'a'} as any)).toThrow(/Invalid serialized operand/);
+  });
+
+  it('Should not deserialize literal maps shaped like serialized operands as operands', () => {
+    const values = [
+      {path: 'x'},
+      {size: 'x'},
+      {literal: 1},
+      {expr: ['', ''], args: [1]},
+      {$operand: 'path', path: 'x'},
+      {operator: '=', operands: [1]},
+    ];
+
+    for (const value of values) {
+      const condition = Condition.from(JSON.parse(JSON.stringify(Condition.eq(value))));
+      const action = UpdateAction.fromJSON(JSON.parse(JSON.stringify(UpdateAction.set(value))));
+
+      expect(condition.operands).toEqual([value]);
+      expect(action.operands[0]).toHaveProperty('operands', [value]);
+      expect(buildConditionParams({conditions: {a: condition}})).toEqual({
+        ConditionExpression: '#a = :cond_',
+        ExpressionAttributeNames: {'#a': 'a'},
+        ExpressionAttributeValues: {':cond_': value}
+      });
+      expect(buildUpdateParams({attributes: {a: action}})).toEqual({
+        UpdateExpression: 'SET #a = :val_set',
+        ExpressionAttributeNames: {'#a': 'a'},
+        ExpressionAttributeValues: {':val_set': value}
+      });
+    }
+  });
+});
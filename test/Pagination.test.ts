@@ -0,0 +1,143 @@
+import {AbortError, AbortSignalLike, Page, queryItems, queryPages, scanItems, scanPages} from '../src/Pagination';
+
+type Item = {id: number};
+
+/**
+ * A fake client returning pages of at most pageSize items, using the id of the last item as LastEvaluatedKey
+ */
+class FakeClient {
+  readonly requests: Array<Record<string, any>> = [];
+
+  constructor(private readonly items: Item[], private readonly pageSize: number) {
+  }
+
+  private page(params: Record<string, any>): Page<Item> {
+    this.requests.push(params);
+
+    const {ExclusiveStartKey, Limit = Infinity, Segment = 0, TotalSegments = 1} = params;
+    const remaining = this.items
+        .filter(item => item.id % TotalSegments === Segment)
+        .filter(item => !ExclusiveStartKey || item.id > ExclusiveStartKey.id);
+    const items = remaining.slice(0, Math.min(this.pageSize, Limit));
+    const last = items[items.length - 1];
+
+    return {
+      Items: items,
+      Count: items.length,
+      ...(items.length < remaining.length && {LastEvaluatedKey: {id: last.id}})
+    };
+  }
+
+  query(params: Record<string, any>) {
+    return Promise.resolve(this.page(params));
+  }
+
+  scan(params: Record<string, any>) {
+    // Mimic the request objects of AWS SDK v2
+    return {promise: () => new Promise<Page<Item>>(resolve => setTimeout(() => resolve(this.page(params)), 1))};
+  }
+}
+
+class FakeAbortSignal implements AbortSignalLike {
+  aborted = false;
+  private readonly listeners = new Set<() => void>();
+
+  addEventListener(type: 'abort', listener: () => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(type: 'abort', listener: () => void) {
+    this.listeners.delete(listener);
+  }
+
+  abort() {
+    this.aborted = true;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+
+  for await (const value of iterable) {
+    values.push(value);
+  }
+
+  return values;
+}
+
+const items = Array.from({length: 10}, (_, i) => ({id: i}));
+
+describe('Pagination tests', () => {
+  it('Should iterate over all pages', async () => {
+    const client = new FakeClient(items, 4);
+    const pages = await collect(queryPages(client, {TableName: 'items'}));
+
+    expect(pages.map(page => page.Items)).toEqual([items.slice(0, 4), items.slice(4, 8), items.slice(8)]);
+    expect(client.requests).toEqual([
+      {TableName: 'items'},
+      {TableName: 'items', ExclusiveStartKey: {id: 3}},
+      {TableName: 'items', ExclusiveStartKey: {id: 7}},
+    ]);
+  });
+
+  it('Should iterate over all items', async () => {
+    expect(await collect(queryItems(new FakeClient(items, 3), {}))).toEqual(items);
+    expect(await collect(scanItems(new FakeClient(items, 3), {}))).toEqual(items);
+    expect(await collect(queryItems(new FakeClient([], 3), {}))).toEqual([]);
+  });
+
+  it('Should start from the given ExclusiveStartKey', async () => {
+    expect(await collect(queryItems(new FakeClient(items, 3), {ExclusiveStartKey: {id: 6}}))).toEqual(items.slice(7));
+  });
+
+  it('Should limit the number of items across pages', async () => {
+    const client = new FakeClient(items, 4);
+
+    expect(await collect(queryItems(client, {Limit: 3}, {limit: 5}))).toEqual(items.slice(0, 5));
+    expect(client.requests.map(params => params.Limit)).toEqual([3, 2]);
+    expect(await collect(queryItems(client, {}, {limit: 0}))).toEqual([]);
+  });
+
+  it('Should scan segments in parallel', async () => {
+    const client = new FakeClient(items, 2);
+    const result = await collect(scanItems(client, {TableName: 'items'}, {totalSegments: 3}));
+
+    expect(result.map(item => item.id).sort((a, b) => a - b)).toEqual(items.map(item => item.id));
+    expect(client.requests.slice(0, 3)).toEqual([0, 1, 2].map(Segment => ({TableName: 'items', Segment, TotalSegments: 3})));
+  });
+
+  it('Should limit the number of items across parallel segments', async () => {
+    expect(await collect(scanItems(new FakeClient(items, 2), {}, {totalSegments: 3, limit: 5}))).toHaveLength(5);
+  });
+
+  it('Should reject an invalid number of segments', () => {
+    expect(() => scanPages(new FakeClient(items, 2), {}, {totalSegments: 0})).toThrow();
+  });
+
+  it('Should abort between pages', async () => {
+    const signal = {aborted: false};
+    const client = new FakeClient(items, 4);
+    const result: Item[] = [];
+
+    await expect((async () => {
+      for await (const item of queryItems(client, {}, {signal})) {
+        result.push(item);
+        signal.aborted = true;
+      }
+    })()).rejects.toThrow(AbortError);
+
+    expect(result).toEqual(items.slice(0, 4));
+    expect(client.requests).toHaveLength(1);
+  });
+
+  it('Should abort pending requests', async () => {
+    const signal = new FakeAbortSignal();
+    const pages = scanPages(new FakeClient(items, 4), {}, {signal, totalSegments: 2});
+    const next = pages.next();
+
+    signal.abort();
+
+    await expect(next).rejects.toThrow(AbortError);
+  });
+});
@@ -0,0 +1,74 @@
+import {buildPartiQLUpdateParams, buildPartiQLWhereClause} from '../src/PartiQL';
+import {Condition, ConditionSet} from '../src/Condition';
+import {expr} from '../src/Expression';
+import {Operand} from '../src/Operand';
+import {SetValue, UpdateAction} from '../src/UpdateAction';
+
+describe('PartiQL tests', () => {
+  it('Should build a WHERE clause', () => {
+    expect(buildPartiQLWhereClause({
+      conditions: ConditionSet.or(
+          {a: 1, 'b.c[0]': Condition.between(2, 3)},
+          {d: Condition.in(['x', 'y']), [Operand.size('e')]: Condition.gt(Operand.get('f'))},
+          {g: Condition.not(Condition.or(Condition.attributeExists(), Condition.beginsWith('z')))}
+      )
+    })).toEqual({
+      WhereClause: 'WHERE ("a" = ? AND "b"."c"[0] BETWEEN ? AND ? OR "d" IN [?, ?] AND size("e") > "f" OR ' +
+          'NOT (("g" IS NOT MISSING OR begins_with("g", ?))))',
+      Parameters: [1, 2, 3, 'x', 'y', 'z']
+    });
+  });
+
+  it('Should build nested conditions with PartiQL syntax', () => {
+    expect(buildPartiQLWhereClause({
+      conditions: {a: Condition.not(Condition.and(Condition.in([1, 2]), Condition.attributeNotExists())), b: Condition.contains('x')}
+    })).toEqual({
+      WhereClause: 'WHERE NOT (("a" IN [?, ?] AND "a" IS MISSING)) AND contains("b", ?)',
+      Parameters: [1, 2, 'x']
+    });
+  });
+
+  it('Should reject raw expression operands', () => {
+    expect(() => buildPartiQLWhereClause({conditions: {a: Condition.eq(expr`${1} + ${2}`)}}))
+        .toThrow(/is not supported in PartiQL/);
+    expect(() => buildPartiQLUpdateParams({tableName: 't', key: {id: 1}, attributes: {a: UpdateAction.set(expr`${1}`)}}))
+        .toThrow(/is not supported in PartiQL/);
+  });
+
+  it('Should build a WHERE clause with AttributeValue parameters', () => {
+    expect(buildPartiQLWhereClause({conditions: {a: 1, b: ':#foo'}, options: {valueFormat: 'attributeValue'}}))
+        .toEqual({WhereClause: 'WHERE "a" = ? AND "b" = ?', Parameters: [{N: '1'}, {S: '#foo'}]});
+  });
+
+  it('Should build an UPDATE statement', () => {
+    expect(buildPartiQLUpdateParams({
+      tableName: 'my-stuff',
+      key: {id: '42'},
+      attributes: {
+        a: 1,
+        b: UpdateAction.remove(),
+        c: UpdateAction.add(new Set(['x'])),
+        d: UpdateAction.delete(new Set(['y'])),
+        e: UpdateAction.set(SetValue.append('e', [1])),
+        f: UpdateAction.set(SetValue.add('f', 1)),
+      },
+      conditions: {a: Condition.lt(10)},
+      params: {ReturnValuesOnConditionCheckFailure: 'ALL_OLD'}
+    })).toEqual({
+      Statement: 'UPDATE "my-stuff" SET "a" = ? SET "c" = set_add("c", ?) SET "d" = set_delete("d", ?) ' +
+          'SET "e" = list_append("e", ?) SET "f" = "f" + ? REMOVE "b" WHERE ("id" = ? AND "a" < ?)',
+      Parameters: [1, new Set(['x']), new Set(['y']), [1], 1, '42', 10],
+      ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+    });
+  });
+
+  it('Should reject unsupported update actions', () => {
+    expect(() => buildPartiQLUpdateParams({tableName: 't', key: {id: 1}, attributes: {a: UpdateAction.add(1)}}))
+        .toThrow(/not supported in PartiQL/);
+    expect(() => buildPartiQLUpdateParams({
+      tableName: 't',
+      key: {id: 1},
+      attributes: {a: UpdateAction.set(SetValue.ifNotExists('a', 1))}
+    })).toThrow(/not supported in PartiQL/);
+  });
+});
@@ -0,0 +1,37 @@
+import {buildProjectionParams} from '../src/Projection';
+import {buildConditionParams, Condition} from '../src/Condition';
+
+describe('Projection tests', () => {
+  it('Should build a simple projection', () => {
+    expect(buildProjectionParams({attributes: ['a', 'b']})).toEqual({
+      ProjectionExpression: '#a, #b',
+      ExpressionAttributeNames: {'#a': 'a', '#b': 'b'}
+    });
+  });
+
+  it('Should build a projection of nested attributes', () => {
+    expect(buildProjectionParams({attributes: ['a.b[2].c', 'a.d', '#e']})).toEqual({
+      ProjectionExpression: '#a.#a_b[2].#a_b2_c, #a.#a_d, #e',
+      ExpressionAttributeNames: {'#a': 'a', '#a_b': 'b', '#a_b2_c': 'c', '#a_d': 'd', '#e': 'e'}
+    });
+  });
+
+  it('Should ignore duplicate attributes', () => {
+    expect(buildProjectionParams({attributes: ['a', 'b', 'a']}).ProjectionExpression).toEqual('#a, #b');
+  });
+
+  it('Should share attribute names with condition params', () => {
+    const params = buildProjectionParams({
+      attributes: ['a', 'c'],
+      params: buildConditionParams({conditions: {a: Condition.gt(5), b: 'foo'}})
+    });
+
+    expect(params.ProjectionExpression).toEqual('#a, #c');
+    expect(params.ExpressionAttributeNames).toEqual({'#a': 'a', '#b': 'b', '#c': 'c'});
+    expect(Object.values(params.ExpressionAttributeValues)).toEqual([5, 'foo']);
+  });
+
+  it('Should not build an empty projection', () => {
+    expect(() => buildProjectionParams({attributes: []})).toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+import {Condition} from '../src/Condition';
+import {Operand} from '../src/Operand';
+import {buildQueryParams, TableDefinition} from '../src/Table';
+
+const table: TableDefinition = {
+  tableName: 'orders',
+  keySchema: {partitionKey: 'id', sortKey: 'version'},
+  indexes: [
+    {name: 'byCustomer', type: 'global', keySchema: {partitionKey: 'customerId'}, projection: 'KEYS_ONLY'},
+    {name: 'byCustomerDate', type: 'global', keySchema: {partitionKey: 'customerId', sortKey: 'createdAt'}, projection: ['status']},
+    {name: 'byStatus', type: 'local', keySchema: {partitionKey: 'id', sortKey: 'status'}, projection: 'KEYS_ONLY'},
+  ]
+};
+
+describe('Table tests', () => {
+  it('Should query the table itself', () => {
+    expect(buildQueryParams({table, conditions: {id: 'a', version: Condition.ge(2), total: Condition.gt(10)}}))
+        .toEqual({
+          TableName: 'orders',
+          KeyConditionExpression: '#id = :cond_ AND #version >= :cond_1',
+          FilterExpression: '#total > :cond_2',
+          ExpressionAttributeNames: {'#id': 'id', '#version': 'version', '#total': 'total'},
+          ExpressionAttributeValues: {':cond_': 'a', ':cond_1': 2, ':cond_2': 10}
+        });
+  });
+
+  it('Should select the index using the most key attributes', () => {
+    expect(buildQueryParams({table, conditions: {customerId: 'c', createdAt: Condition.between('2020', '2021')}}))
+        .toEqual({
+          TableName: 'orders',
+          IndexName: 'byCustomerDate',
+          KeyConditionExpression: '#customerId = :cond_ AND #createdAt BETWEEN :cond_between0 AND :cond_between1',
+          ExpressionAttributeNames: {'#customerId': 'customerId', '#createdAt': 'createdAt'},
+          ExpressionAttributeValues: {':cond_': 'c', ':cond_between0': '2020', ':cond_between1': '2021'}
+        });
+
+    expect(buildQueryParams({table, conditions: {id: 'a', status: Condition.beginsWith('o')}}))
+        .toHaveProperty('IndexName', 'byStatus');
+    expect(buildQueryParams({table, conditions: {id: 'a', status: Condition.neq('open')}}))
+        .not.toHaveProperty('IndexName');
+  });
+
+  it('Should only filter global indexes on projected attributes', () => {
+    expect(buildQueryParams({table, conditions: {customerId: 'c', version: 1}})).toHaveProperty('IndexName', 'byCustomer');
+    expect(buildQueryParams({table, conditions: {customerId: 'c', status: 'open'}}))
+        .toHaveProperty('IndexName', 'byCustomerDate');
+    expect(() => buildQueryParams({table, conditions: {customerId: 'c', total: 1}})).toThrow(/can be used/);
+  });
+
+  it('Should not use conditions on attribute references as key conditions', () => {
+    expect(() => buildQueryParams({table, conditions: {id: Condition.eq(Operand.get('customerId'))}}))
+        .toThrow(/can be used/);
+    expect(buildQueryParams({table, conditions: {id: 'a', version: Condition.gt(Operand.get('minVersion'))}}))
+        .toHaveProperty('FilterExpression', '#version > #minVersion');
+  });
+
+  it('Should not filter on key attributes of the queried table or index', () => {
+    expect(buildQueryParams({table, conditions: {id: 'a', version: Condition.neq(1)}}))
+        .toEqual(expect.objectContaining({IndexName: 'byStatus', FilterExpression: '#version <> :cond_1'}));
+    expect(() => buildQueryParams({table, conditions: {customerId: 'c', createdAt: Condition.contains('2020')}}))
+        .toThrow(/can be used/);
+    expect(() => buildQueryParams({table, conditions: {id: 'a', status: Condition.neq('open'), version: Condition.neq(1)}}))
+        .toThrow(/can be used/);
+    expect(() => buildQueryParams({table, indexName: null, conditions: {id: 'a', version: Condition.neq(1)}}))
+        .toThrow(/can be used/);
+  });
+
+  it('Should use the given index', () => {
+    expect(buildQueryParams({table, indexName: 'byCustomer', conditions: {customerId: 'c', id: 'a'}, params: {Limit: 1}}))
+        .toEqual(expect.objectContaining({IndexName: 'byCustomer', Limit: 1, FilterExpression: '#id = :cond_1'}));
+    expect(buildQueryParams({table, indexName: null, conditions: {id: 'a', status: 'open'}}))
+        .not.toHaveProperty('IndexName');
+    expect(() => buildQueryParams({table, indexName: 'foo', conditions: {id: 'a'}})).toThrow(/has no index foo/);
+  });
+});
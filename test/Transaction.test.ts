@@ -0,0 +1,75 @@
+import {buildTransactWriteParams, TransactWriteOperation} from '../src/Transaction';
+import {Condition} from '../src/Condition';
+import {UpdateAction} from '../src/UpdateAction';
+
+describe('Transaction tests', () => {
+  it('Should build transaction items', () => {
+    const params = buildTransactWriteParams({
+      operations: [
+        {
+          type: 'Update',
+          tableName: 'accounts',
+          key: {id: '1'},
+          attributes: {balance: UpdateAction.add(-10)},
+          conditions: {balance: Condition.ge(10)}
+        },
+        {type: 'Put', tableName: 'accounts', item: {id: '2', balance: 10}, keyAttributes: ['id']},
+        {type: 'Delete', tableName: 'accounts', key: {id: '3'}, params: {ReturnValuesOnConditionCheckFailure: 'ALL_OLD'}},
+        {type: 'ConditionCheck', tableName: 'users', key: {id: '1'}, conditions: {status: 'active'}},
+      ],
+      params: {ClientRequestToken: 'foo'}
+    });
+
+    expect(params).toEqual({
+      ClientRequestToken: 'foo',
+      TransactItems: [
+        {
+          Update: {
+            TableName: 'accounts',
+            Key: {id: '1'},
+            UpdateExpression: 'ADD #balance :val_add',
+            ConditionExpression: '#balance >= :cond_',
+            ExpressionAttributeNames: {'#balance': 'balance'},
+            ExpressionAttributeValues: {':val_add': -10, ':cond_': 10}
+          }
+        },
+        {Put: {TableName: 'accounts', Item: {id: '2', balance: 10}}},
+        {Delete: {TableName: 'accounts', Key: {id: '3'}, ReturnValuesOnConditionCheckFailure: 'ALL_OLD'}},
+        {
+          ConditionCheck: {
+            TableName: 'users',
+            Key: {id: '1'},
+            ConditionExpression: '#status = :cond_',
+            ExpressionAttributeNames: {'#status': 'status'},
+            ExpressionAttributeValues: {':cond_': 'active'}
+          }
+        },
+      ]
+    });
+  });
+
+  it('Should reject multiple operations on the same item', () => {
+    expect(() => buildTransactWriteParams({
+      operations: [
+        {type: 'Delete', tableName: 'items', key: {pk: 'a', sk: 1}},
+        {type: 'Put', tableName: 'items', item: {sk: 1, pk: 'a', foo: 'bar'}, keyAttributes: ['pk', 'sk']},
+      ]
+    })).toThrow(/multiple operations/);
+
+    expect(() => buildTransactWriteParams({
+      operations: [
+        {type: 'Delete', tableName: 'items', key: {pk: 'a', sk: 1}},
+        {type: 'Delete', tableName: 'other-items', key: {pk: 'a', sk: 1}},
+      ]
+    })).not.toThrow();
+  });
+
+  it('Should reject too many or no operations', () => {
+    const operations: TransactWriteOperation[] = [...Array(101).keys()]
+        .map(i => ({type: 'Delete', tableName: 'items', key: {id: i}}));
+
+    expect(() => buildTransactWriteParams({operations})).toThrow(/exceeding 100/);
+    expect(() => buildTransactWriteParams({operations: operations.slice(1)})).not.toThrow();
+    expect(() => buildTransactWriteParams({operations: []})).toThrow();
+  });
+});
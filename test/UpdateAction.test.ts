@@ -1,6 +1,16 @@
-import {SetValue, UpdateAction, UpdateAttributes} from '../src/UpdateAction';
+import {
+  applyUpdate,
+  buildUpdateParams,
+  deserializeUpdateAttributes,
+  mergeUpdatePaths,
+  serializeUpdateAttributes,
+  SetValue,
+  UpdateAction,
+  UpdateAttributes
+} from '../src/UpdateAction';
 import {UpdateExpressionBuilder} from '../src/UpdateExpressionBuilder';
 import {Operand} from '../src/Operand';
+import {OverlappingPathsError} from '../src/ExpressionValidator';
 
 function matchExpression(action: UpdateAttributes<unknown>, exprPattern: RegExp, names: Record<string, string> | string[], values: unknown[]) {
   const builder = new UpdateExpressionBuilder({});
@@ -121,6 +131,22 @@ describe('Update action tests', () => {
         []);
   });
 
+  it('Should prepend to a list which may not exist', () => {
+    matchExpression(
+        {a: UpdateAction.set(SetValue.prependTo('a', ['B']))},
+        /^SET #a = list_append\((:val_.*), if_not_exists\(#a, (:val_.*)\)\)$/,
+        {'#a': 'a'},
+        [['B'], []]);
+  });
+
+  it('Should append to a list which may not exist', () => {
+    matchExpression(
+        {a: UpdateAction.set(SetValue.appendTo('a', ['B']))},
+        /^SET #a = list_append\(if_not_exists\(#a, (:val_.*)\), (:val_.*)\)$/,
+        {'#a': 'a'},
+        [[], ['B']]);
+  });
+
   it('Should use if_not_exists function in a SET expression', () => {
     matchExpression(
         {a: UpdateAction.set(SetValue.ifNotExists('a', 42))},
@@ -215,3 +241,207 @@ describe('Update action tests', () => {
     });
   });
 });
+
+describe('Update action serialization tests', () => {
+  function roundTrip(attributes: UpdateAttributes<unknown>) {
+    return deserializeUpdateAttributes(JSON.parse(JSON.stringify(serializeUpdateAttributes(attributes))));
+  }
+
+  function build(attributes: UpdateAttributes<unknown>) {
+    const builder = new UpdateExpressionBuilder({});
+
+    return {expr: builder.build(attributes), ...builder.params};
+  }
+
+  it('Should serialize and deserialize update actions', () => {
+    const attributes = {
+      a: 42,
+      b: UpdateAction.remove(),
+      c: UpdateAction.add(5),
+      d: UpdateAction.add(new Set(['x', 'y'])),
+      e: UpdateAction.delete(new Set([1])),
+      f: UpdateAction.set(SetValue.append(SetValue.ifNotExists('f', []), ['z'])),
+      g: UpdateAction.set(SetValue.subtract('g', SetValue.add('h', 2))),
+      h: UpdateAction.set(SetValue.prependTo('h', [1])),
+    };
+
+    expect(build(roundTrip(attributes))).toEqual(build(attributes));
+  });
+
+  it('Should serialize a SET action with a literal value', () => {
+    expect(JSON.parse(JSON.stringify(UpdateAction.set('foo')))).toEqual({
+      type: 'SET',
+      operands: [{func: 'value', operands: ['foo']}]
+    });
+  });
+
+  it('Should serialize sets nested in maps and lists', () => {
+    const value = {tags: new Set(['a']), list: [new Set([1]), {ids: new Set([2])}]};
+    const [operand] = (roundTrip({a: value}).a as UpdateAction<unknown>).operands as [SetValue];
+
+    expect(JSON.parse(JSON.stringify(UpdateAction.set(value))).operands[0].operands[0]).toEqual({
+      tags: {$set: ['a']},
+      list: [{$set: [1]}, {ids: {$set: [2]}}]
+    });
+    expect(operand.operands).toEqual([value]);
+  });
+
+  it('Should serialize literal maps shaped like serialized sets', () => {
+    for (const value of [{set: [1]}, {$set: [1]}, {$map: {a: 1}}, {a: {$set: [1]}}]) {
+      const [operand] = (roundTrip({a: UpdateAction.set(value)}).a as UpdateAction<unknown>).operands as [SetValue];
+
+      expect(operand.operands).toEqual([value]);
+    }
+  });
+
+  it('Should reject invalid serialized update actions', () => {
+    expect(() => UpdateAction.fromJSON({type: 'ADD', operands: ['foo']})).toThrow();
+    expect(() => UpdateAction.fromJSON({type: 'FOO', operands: []} as any)).toThrow();
+    expect(() => SetValue.fromJSON({func: 'add', operands: [1]})).toThrow();
+  });
+});
+
+describe('Apply update tests', () => {
+  const item = {
+    id: '1',
+    a: 42,
+    b: new Set(['x', 'y']),
+    c: {d: [1, 2, 3], e: 'foo'},
+    f: ['bar'],
+  };
+
+  it('Should apply SET actions', () => {
+    expect(applyUpdate(item, {
+      a: 43,
+      g: '#a',
+      'c.e': 'baz',
+      'c.d[1]': 5,
+      'c.d[10]': 4,
+    })).toEqual({...item, a: 43, g: 42, c: {d: [1, 5, 3, 4], e: 'baz'}});
+  });
+
+  it('Should apply SET functions', () => {
+    expect(applyUpdate(item, {
+      a: UpdateAction.set(SetValue.subtract('a', 2)),
+      f: UpdateAction.set(SetValue.append('f', ['baz'])),
+      g: UpdateAction.set(SetValue.ifNotExists('g', 1)),
+      h: UpdateAction.set(SetValue.add(SetValue.ifNotExists('h', 0), 'a')),
+    })).toEqual({...item, a: 40, f: ['bar', 'baz'], g: 1, h: 42});
+  });
+
+  it('Should evaluate values against the original item', () => {
+    expect(applyUpdate<Record<string, unknown>>({a: 1, b: 2}, {a: '#b', b: '#a'})).toEqual({a: 2, b: 1});
+  });
+
+  it('Should apply REMOVE actions', () => {
+    expect(applyUpdate(item, {
+      a: UpdateAction.remove(),
+      'c.d[0]': UpdateAction.remove(),
+      'c.d[2]': UpdateAction.remove(),
+      'x.y': UpdateAction.remove(),
+    })).toEqual({id: '1', b: item.b, c: {d: [2], e: 'foo'}, f: ['bar']});
+  });
+
+  it('Should apply ADD and DELETE actions', () => {
+    expect(applyUpdate(item, {
+      a: UpdateAction.add(-2),
+      b: UpdateAction.add(new Set(['z'])),
+      g: UpdateAction.add(3),
+      h: UpdateAction.add(new Set([1])),
+    })).toEqual({...item, a: 40, b: new Set(['x', 'y', 'z']), g: 3, h: new Set([1])});
+
+    expect(applyUpdate(item, {b: UpdateAction.delete(new Set(['x']))})).toEqual({...item, b: new Set(['y'])});
+    expect(applyUpdate(item, {b: UpdateAction.delete(new Set(['x', 'y']))})).not.toHaveProperty('b');
+  });
+
+  it('Should apply list append and prepend functions creating missing lists', () => {
+    expect(applyUpdate<Record<string, unknown>>({a: [1], c: ['x']}, {
+      a: UpdateAction.set(SetValue.prependTo('a', [0])),
+      b: UpdateAction.set(SetValue.appendTo('b', [2])),
+      c: UpdateAction.set(SetValue.appendTo('c', ['y'])),
+    })).toEqual({a: [0, 1], b: [2], c: ['x', 'y']});
+  });
+
+  it('Should not modify the original item', () => {
+    applyUpdate(item, {b: UpdateAction.add(new Set(['z'])), 'c.e': 'baz'});
+
+    expect(item.b).toEqual(new Set(['x', 'y']));
+    expect(item.c.e).toEqual('foo');
+  });
+
+  it('Should reject invalid updates', () => {
+    expect(() => applyUpdate(item, {'x.y': 1})).toThrow();
+    expect(() => applyUpdate(item, {id: UpdateAction.add(1)})).toThrow();
+    expect(() => applyUpdate(item, {a: UpdateAction.delete(new Set([1]))})).toThrow();
+    expect(() => applyUpdate(item, {a: UpdateAction.set(SetValue.append('a', [1]))})).toThrow();
+  });
+});
+
+describe('Overlapping path tests', () => {
+  function getConflicts(fn: () => unknown): Array<[string, string]> | undefined {
+    try {
+      fn();
+    } catch (err) {
+      if (err instanceof OverlappingPathsError) {
+        return err.conflicts;
+      }
+      throw err;
+    }
+    return undefined;
+  }
+
+  function serialize(attributes: UpdateAttributes<Record<string, unknown>>) {
+    return JSON.parse(JSON.stringify(serializeUpdateAttributes(attributes)));
+  }
+
+  it('Should reject overlapping paths naming both paths', () => {
+    expect(getConflicts(() => buildUpdateParams({attributes: {a: {b: 1}, 'a.c': 2}}))).toEqual([['a', 'a.c']]);
+    expect(getConflicts(() => buildUpdateParams({attributes: {a: UpdateAction.remove(), '#a': 1}})))
+        .toEqual([['a', '#a']]);
+    expect(getConflicts(() => buildUpdateParams({attributes: {'#c[01]': 1, 'c[1]': 2}})))
+        .toEqual([['#c[01]', 'c[1]']]);
+    expect(getConflicts(() => buildUpdateParams({attributes: {'c[1]': 1, 'c[10]': 2, 'c[1].d': 3}})))
+        .toEqual([['c[1]', 'c[1].d']]);
+  });
+
+  it('Should not reject distinct paths', () => {
+    expect(buildUpdateParams({attributes: {'a.b': 1, 'a.c': 2, ab: 3, 'c[1]': 4, 'c[10]': 5, d: undefined, '#d': 6}}))
+        .toHaveProperty('UpdateExpression');
+  });
+
+  it('Should merge overlapping paths', () => {
+    expect(serialize(mergeUpdatePaths<Record<string, unknown>>({
+      a: {b: 1},
+      'a.c': 2,
+      'a.b': UpdateAction.add(1),
+      d: UpdateAction.add(1),
+      '#d': UpdateAction.add(2),
+      e: UpdateAction.add(new Set(['x'])),
+      '#e': UpdateAction.add(new Set(['y'])),
+      f: UpdateAction.remove(),
+      '#f': UpdateAction.remove(),
+    }))).toEqual(serialize({
+      a: UpdateAction.set(Operand.value({b: 2, c: 2})),
+      d: UpdateAction.add(3),
+      e: UpdateAction.add(new Set(['x', 'y'])),
+      f: UpdateAction.remove(),
+    }));
+  });
+
+  it('Should merge overlapping paths when building update params', () => {
+    expect(buildUpdateParams({attributes: {a: {b: 1}, 'a.c': 2}, options: {mergePaths: true}})).toEqual({
+      UpdateExpression: 'SET #a = :val_set',
+      ExpressionAttributeNames: {'#a': 'a'},
+      ExpressionAttributeValues: {':val_set': {b: 1, c: 2}},
+    });
+  });
+
+  it('Should reject overlapping paths which cannot be merged', () => {
+    expect(getConflicts(() => mergeUpdatePaths({a: 1, '#a': 2}))).toEqual([['a', '#a']]);
+    expect(getConflicts(() => mergeUpdatePaths({a: UpdateAction.add(1), '#a': UpdateAction.remove()})))
+        .toEqual([['a', '#a']]);
+    expect(getConflicts(() => mergeUpdatePaths({a: '#b', 'a.c': 1}))).toEqual([['a', 'a.c']]);
+    expect(getConflicts(() => mergeUpdatePaths({a: {b: 1}, 'a.c': '#d'}))).toEqual([['a', 'a.c']]);
+    expect(getConflicts(() => mergeUpdatePaths({a: 1, 'a.c': 2}))).toEqual([['a', 'a.c']]);
+  });
+});
@@ -0,0 +1,82 @@
+import {ConditionBuilder} from '../src/ConditionBuilder';
+import {OverlappingPathsError} from '../src/ExpressionValidator';
+import {Operand} from '../src/Operand';
+import {SetValue, UpdateAction} from '../src/UpdateAction';
+import {UpdateBuilder} from '../src/UpdateBuilder';
+
+interface Item {
+  id: string;
+  list: string[];
+  tags: Set<string>;
+  tagCount: number;
+  version: number;
+}
+
+describe('Update builder tests', () => {
+  it('Should build update params with multiple actions on paths of the same attribute', () => {
+    expect(new UpdateBuilder<Item>()
+        .set('list[0]', 'foo')
+        .remove('list[3]')
+        .add('tags', new Set(['bar']))
+        .set('tagCount', SetValue.add('tagCount', 1))
+        .build({params: {TableName: 'items'}})).toEqual({
+      TableName: 'items',
+      UpdateExpression: 'SET #list[0] = :val_set, #tagCount = #tagCount + :val_add1 REMOVE #list[3] ADD #tags :val_add',
+      ExpressionAttributeNames: {'#list': 'list', '#tags': 'tags', '#tagCount': 'tagCount'},
+      ExpressionAttributeValues: {':val_set': 'foo', ':val_add': new Set(['bar']), ':val_add1': 1},
+    });
+  });
+
+  it('Should build actions in the order in which they are added', () => {
+    expect(new UpdateBuilder()
+        .delete('c', new Set([1]))
+        .set('2', 'x')
+        .set('1', 'y')
+        .build()).toHaveProperty('UpdateExpression', 'DELETE #c :val_delete SET #2 = :val_set, #1 = :val_set_1');
+  });
+
+  it('Should build update params with conditions', () => {
+    expect(new UpdateBuilder<Item>()
+        .set('tagCount', 0)
+        .when({version: 3})
+        .when(new ConditionBuilder<Item>().attributeExists('id'))
+        .build()).toEqual({
+      UpdateExpression: 'SET #tagCount = :val_set',
+      ConditionExpression: '(#version = :cond_ AND attribute_exists(#id))',
+      ExpressionAttributeNames: {'#tagCount': 'tagCount', '#version': 'version', '#id': 'id'},
+      ExpressionAttributeValues: {':val_set': 0, ':cond_': 3},
+    });
+  });
+
+  it('Should add update actions', () => {
+    expect(new UpdateBuilder()
+        .action('a', UpdateAction.set(Operand.value({b: 1})))
+        .build()).toHaveProperty('UpdateExpression', 'SET #a = :val_set');
+  });
+
+  it('Should reject overlapping paths', () => {
+    expect(() => new UpdateBuilder().add('a', 1).add('a', 2).build()).toThrow(OverlappingPathsError);
+    expect(() => new UpdateBuilder().set('a', {b: 1}).remove('a.b').build()).toThrow(OverlappingPathsError);
+  });
+
+  it('Should merge overlapping paths', () => {
+    expect(new UpdateBuilder()
+        .add('a', 1)
+        .add('a', 2)
+        .build({options: {mergePaths: true}})).toEqual({
+      UpdateExpression: 'ADD #a :val_add',
+      ExpressionAttributeNames: {'#a': 'a'},
+      ExpressionAttributeValues: {':val_add': 3},
+    });
+  });
+
+  it('Should reject empty updates', () => {
+    expect(() => new UpdateBuilder().when({a: 1}).build()).toThrow();
+  });
+
+  it('Should type check values', () => {
+    // @ts-expect-error
+    new UpdateBuilder<Item>().set('tagCount', 'foo');
+    new UpdateBuilder<Item>().set('other', 'foo');
+  });
+});
@@ -0,0 +1,52 @@
+import {Condition} from '../src/Condition';
+import {UpdateAction} from '../src/UpdateAction';
+import {buildVersionedUpdateParams} from '../src/Versioning';
+
+describe('Versioning tests', () => {
+  it('Should increment and require the expected version', () => {
+    expect(buildVersionedUpdateParams({attributes: {name: 'foo'}, expectedVersion: 3, params: {TableName: 't'}}))
+        .toEqual({
+          TableName: 't',
+          UpdateExpression: 'SET #name = :val_set ADD #version :val_add',
+          ConditionExpression: '#version = :cond_',
+          ExpressionAttributeNames: {'#name': 'name', '#version': 'version'},
+          ExpressionAttributeValues: {':val_set': 'foo', ':val_add': 1, ':cond_': 3}
+        });
+  });
+
+  it('Should require the version to not exist when creating', () => {
+    expect(buildVersionedUpdateParams({attributes: {name: 'foo'}, versionAttribute: 'rev'}))
+        .toEqual({
+          UpdateExpression: 'SET #name = :val_set ADD #rev :val_add',
+          ConditionExpression: 'attribute_not_exists(#rev)',
+          ExpressionAttributeNames: {'#name': 'name', '#rev': 'rev'},
+          ExpressionAttributeValues: {':val_set': 'foo', ':val_add': 1}
+        });
+  });
+
+  it('Should combine the version condition with other conditions', () => {
+    expect(buildVersionedUpdateParams({attributes: {count: UpdateAction.add(1)}, expectedVersion: 1, conditions: {status: Condition.neq('closed')}}))
+        .toHaveProperty('ConditionExpression', '(#status <> :cond_ AND #version = :val_add)');
+  });
+
+  it('Should reject updates of the version attribute', () => {
+    expect(() => buildVersionedUpdateParams({attributes: {version: 2}, expectedVersion: 1})).toThrow(/version attribute/);
+    expect(() => buildVersionedUpdateParams({attributes: {'#version': 2}, expectedVersion: 1})).toThrow(/version attribute/);
+    expect(() => buildVersionedUpdateParams({attributes: {'rev.minor': 2}, versionAttribute: 'rev'}))
+        .toThrow(/version attribute/);
+    expect(() => buildVersionedUpdateParams({attributes: {meta: {}}, versionAttribute: 'meta.version'}))
+        .toThrow(/version attribute/);
+    expect(() => buildVersionedUpdateParams({attributes: {'#meta.version': 2}, versionAttribute: 'meta.version'}))
+        .toThrow(/version attribute/);
+  });
+
+  it('Should allow updates of siblings of a nested version attribute', () => {
+    expect(buildVersionedUpdateParams({attributes: {'meta.x': 1}, expectedVersion: 1, versionAttribute: 'meta.version'}))
+        .toEqual({
+          UpdateExpression: 'SET #meta.#meta_x = :val_set ADD #meta.#meta_version :val_set',
+          ConditionExpression: '#meta.#meta_version = :val_set',
+          ExpressionAttributeNames: {'#meta': 'meta', '#meta_x': 'x', '#meta_version': 'version'},
+          ExpressionAttributeValues: {':val_set': 1}
+        });
+  });
+});